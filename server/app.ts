@@ -0,0 +1,691 @@
+import { existsSync } from "fs";
+import { join } from "path";
+import { file } from "bun";
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_S,
+  STATE_COOKIE,
+  STATE_MAX_AGE_S,
+  completeSignIn,
+  createAuthUrl,
+  getAccessToken,
+  getCookie,
+  getSessionUser,
+  isServerAuthEnabled,
+  isSignedIn,
+  serializeCookie,
+  signOut,
+} from "./auth";
+import {
+  deleteStoredSetting,
+  getJob,
+  getStoredSetting,
+  listJobs,
+  saveStoredSetting,
+  setJobStatus,
+} from "./jobStore";
+import {
+  BASE_URL_LIFETIME_MS,
+  cancelJob,
+  downloadDirs,
+  downloadProgress,
+  emitJobEvent,
+  getJobAuthSessionId,
+  jobControls,
+  pauseJob,
+  processDownloads,
+  removeJob,
+  restoreJobs,
+  resumeJob,
+  runPendingItems,
+  subscribeToJob,
+  updateJobToken,
+} from "./jobs";
+import type { SessionData } from "./jobs";
+import { readManifest } from "./manifest";
+import { getOutputDir, resolveOutputFolder } from "./output";
+import { createZipStream } from "./zip";
+import { isSafeTargetPath, planTargetPaths } from "../src/naming";
+import { PICKER_API } from "../src/PickerService";
+import {
+  parseDownloadSettings,
+  serializeDownloadSettings,
+} from "../src/settings";
+import { getSidecarPath, getXmpSidecarPath } from "../src/sidecar";
+import type { JobEvent } from "../src/types";
+
+// The HTTP server shared by the development and standalone entrypoints. They
+// only differ in how the web app's static files are served.
+
+const SSE_KEEP_ALIVE_MS = 5000; // Must stay below Bun's 10 second idle timeout
+
+// The web app saves the settings it last confirmed here, jobs started without
+// settings use them
+const DEFAULT_SETTINGS_KEY = "downloadSettings";
+
+// Jobs started with the server sign-in only answer to the browser holding it.
+// Others are only reachable by their id, which can't be guessed.
+function canAccessJob(req: Request, progressId: string): boolean {
+  const authSessionId = getJobAuthSessionId(progressId);
+  return !authSessionId || authSessionId === getCookie(req, SESSION_COOKIE);
+}
+
+function jobNotFound(): Response {
+  return Response.json(
+    { success: false, error: "Download session not found" },
+    { status: 404 }
+  );
+}
+
+interface ServerOptions {
+  port: number;
+  serveStatic: (url: URL) => Response; // Everything outside /api/
+  staticDescription: string; // Logged on startup
+}
+
+async function handleApiRequest(req: Request, url: URL): Promise<Response> {
+  // Start download endpoint
+  if (url.pathname === "/api/download" && req.method === "POST") {
+    try {
+      const body = (await req.json()) as SessionData;
+      // Clients can only pick a folder inside the server output directory, and
+      // only use the server sign-in their cookie belongs to
+      delete body.outputDir;
+      delete body.authSessionId;
+      if (body.outputFolder !== undefined) {
+        body.outputDir = resolveOutputFolder(body.outputFolder);
+      }
+
+      const authSessionId = getCookie(req, SESSION_COOKIE);
+      if (!body.oauthToken && authSessionId && isSignedIn(authSessionId)) {
+        body.authSessionId = authSessionId;
+        body.oauthToken = await getAccessToken(authSessionId);
+      }
+      if (!body.oauthToken) {
+        return Response.json(
+          { success: false, error: "Sign in with Google first" },
+          { status: 401 }
+        );
+      }
+
+      body.downloadSettings ??= parseDownloadSettings(
+        getStoredSetting(DEFAULT_SETTINGS_KEY)
+      );
+
+      // Retries run under the job they came from
+      if (body.progressId) {
+        const existing = downloadProgress.get(body.progressId);
+        if (!existing || !canAccessJob(req, body.progressId)) {
+          return jobNotFound();
+        }
+        if (!existing.isComplete) {
+          return Response.json(
+            { success: false, error: "Download is still running" },
+            { status: 409 }
+          );
+        }
+      }
+
+      // The web app and CLI plan names up front, other clients get the
+      // server's plan so clashing filenames can't overwrite each other
+      if (!body.mediaItems.every((item) => item.targetPath)) {
+        body.mediaItems = planTargetPaths(
+          body.mediaItems,
+          body.downloadSettings,
+          body.outputDir ? readManifest(body.outputDir) : undefined
+        ).items;
+      }
+
+      const progressId = body.progressId ?? crypto.randomUUID();
+
+      // Start downloads in background
+      processDownloads(body, progressId).catch(console.error);
+
+      return Response.json({
+        success: true,
+        progressId,
+        message: "Download started",
+      });
+    } catch (error) {
+      return Response.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  // Token endpoint, for when the browser renews its Google sign-in mid-download
+  const tokenMatch = url.pathname.match(/^\/api\/download\/([^/]+)\/token$/);
+  if (tokenMatch && req.method === "POST") {
+    try {
+      const { oauthToken } = await req.json();
+      if (typeof oauthToken !== "string" || !oauthToken) {
+        throw new Error("oauthToken is required");
+      }
+      if (
+        !canAccessJob(req, tokenMatch[1]) ||
+        !updateJobToken(tokenMatch[1], oauthToken)
+      ) {
+        return jobNotFound();
+      }
+      return Response.json({ success: true });
+    } catch (error) {
+      return Response.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  // Cancel, pause and resume endpoints
+  const controlMatch = url.pathname.match(
+    /^\/api\/download\/([^/]+)\/(cancel|pause|resume)$/
+  );
+  if (controlMatch && req.method === "POST") {
+    const [, progressId, action] = controlMatch;
+
+    const progress = downloadProgress.get(progressId);
+    if (!progress || !canAccessJob(req, progressId)) return jobNotFound();
+
+    const control = jobControls.get(progressId);
+
+    // Jobs paused before a restart have nothing running to wake up
+    if (!control && action === "resume" && progress.status === "paused") {
+      const job = getJob(progressId);
+      if (!job || Date.now() - job.createdAt >= BASE_URL_LIFETIME_MS) {
+        return Response.json(
+          { success: false, error: "Download links have expired" },
+          { status: 410 }
+        );
+      }
+      runPendingItems(job);
+      return Response.json({ success: true, status: "running" });
+    }
+
+    if (!control) {
+      return Response.json(
+        { success: false, error: "Download is not running" },
+        { status: 409 }
+      );
+    }
+
+    if (action === "cancel") {
+      cancelJob(control);
+      return Response.json({ success: true, status: "cancelled" });
+    }
+
+    if (action === "pause") {
+      pauseJob(control);
+    } else {
+      resumeJob(control);
+    }
+    setJobStatus(progressId, control.progress.status);
+    emitJobEvent(progressId, {
+      type: "status",
+      status: control.progress.status,
+    });
+
+    return Response.json({
+      success: true,
+      status: control.progress.status,
+    });
+  }
+
+  // Progress endpoint
+  if (url.pathname === "/api/progress" && req.method === "GET") {
+    const progressId = url.searchParams.get("id");
+    if (!progressId) {
+      return Response.json({ error: "Missing progress ID" }, { status: 400 });
+    }
+
+    const progress = downloadProgress.get(progressId);
+    if (!progress || !canAccessJob(req, progressId)) {
+      return Response.json({ error: "Progress not found" }, { status: 404 });
+    }
+
+    return Response.json(progress);
+  }
+
+  // Progress stream endpoint (Server-Sent Events)
+  if (url.pathname === "/api/progress/stream" && req.method === "GET") {
+    const progressId = url.searchParams.get("id");
+    if (!progressId) {
+      return Response.json({ error: "Missing progress ID" }, { status: 400 });
+    }
+
+    const progress = downloadProgress.get(progressId);
+    if (!progress || !canAccessJob(req, progressId)) {
+      return Response.json({ error: "Progress not found" }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    let closeStream = () => {};
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const send = (event: JobEvent) =>
+          controller.enqueue(
+            encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+          );
+
+        // Comments keep the connection from timing out between events
+        const keepAlive = setInterval(
+          () => controller.enqueue(encoder.encode(": keep-alive\n\n")),
+          SSE_KEEP_ALIVE_MS
+        );
+
+        const unsubscribe = subscribeToJob(progressId, (event) => {
+          send(event);
+          if (event.type === "removed") {
+            closeStream();
+            controller.close();
+          }
+        });
+
+        closeStream = () => {
+          clearInterval(keepAlive);
+          unsubscribe();
+        };
+        req.signal.addEventListener("abort", () => closeStream());
+
+        // Everything so far, then incremental events from here on
+        send({ type: "snapshot", progress });
+      },
+      cancel() {
+        closeStream();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  // Download file endpoint
+  if (url.pathname === "/api/file" && req.method === "GET") {
+    const progressId = url.searchParams.get("progressId");
+    const filename = url.searchParams.get("filename");
+
+    if (!progressId || !filename) {
+      return Response.json(
+        { error: "Missing progressId or filename" },
+        { status: 400 }
+      );
+    }
+    if (!isSafeTargetPath(filename)) {
+      return Response.json({ error: "Invalid filename" }, { status: 400 });
+    }
+
+    const tempDir = downloadDirs.get(progressId);
+    if (!tempDir || !canAccessJob(req, progressId)) {
+      return Response.json(
+        { error: "Download session not found" },
+        { status: 404 }
+      );
+    }
+
+    const filePath = join(tempDir, filename);
+    if (!existsSync(filePath)) {
+      return Response.json({ error: "File not found" }, { status: 404 });
+    }
+
+    // Bun streams the file from disk rather than loading it into memory
+    return new Response(file(filePath));
+  }
+
+  // A finished job's files as one ZIP, for browsers that can't save into a directory
+  if (url.pathname === "/api/archive" && req.method === "GET") {
+    const progressId = url.searchParams.get("progressId");
+    const progress = progressId ? downloadProgress.get(progressId) : undefined;
+    const downloadDir = progressId ? downloadDirs.get(progressId) : undefined;
+    if (
+      !progressId ||
+      !progress ||
+      !downloadDir ||
+      !canAccessJob(req, progressId)
+    ) {
+      return Response.json(
+        { error: "Download session not found" },
+        { status: 404 }
+      );
+    }
+    if (!progress.isComplete) {
+      return Response.json(
+        { error: "Download is still running" },
+        { status: 409 }
+      );
+    }
+
+    // Each saved file, with its sidecars when they were written
+    const entries = progress.files
+      .filter((savedFile) => !savedFile.duplicateOf)
+      .flatMap(({ filename }) => [
+        filename,
+        getSidecarPath(filename),
+        getXmpSidecarPath(filename),
+      ])
+      .map((name) => ({ name, path: join(downloadDir, name) }))
+      .filter(({ path }) => existsSync(path));
+
+    // The files are only needed until they have been fetched, unless some
+    // failed and can still be retried
+    const archive = createZipStream(entries, () => {
+      if (progress.failed === 0) removeJob(progressId);
+    });
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(archive, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="google-photos-${date}.zip"`,
+      },
+    });
+  }
+
+  // Unfinished jobs endpoint (including ones resumed after a restart)
+  if (url.pathname === "/api/jobs" && req.method === "GET") {
+    const jobs = listJobs()
+      .filter(
+        (job) =>
+          (job.status === "running" || job.status === "paused") &&
+          // Jobs without an owner are only listed when nobody signs in
+          // through the server
+          (getJobAuthSessionId(job.id)
+            ? canAccessJob(req, job.id)
+            : !isServerAuthEnabled())
+      )
+      .map((job) => {
+        const progress = downloadProgress.get(job.id);
+        return {
+          progressId: job.id,
+          status: job.status,
+          total: progress?.total ?? 0,
+          downloaded: progress?.downloaded ?? 0,
+          failed: progress?.failed ?? 0,
+          createdAt: new Date(job.createdAt).toISOString(),
+          expiresAt: new Date(
+            job.createdAt + BASE_URL_LIFETIME_MS
+          ).toISOString(),
+        };
+      });
+
+    return Response.json({ jobs });
+  }
+
+  // Server sign-in status, for the web app to decide how to sign in
+  if (url.pathname === "/api/auth/session" && req.method === "GET") {
+    const sessionId = getCookie(req, SESSION_COOKIE);
+    const signedIn = !!sessionId && isSignedIn(sessionId);
+    return Response.json({
+      enabled: isServerAuthEnabled(),
+      signedIn,
+      user: signedIn ? getSessionUser(sessionId) : null,
+    });
+  }
+
+  if (url.pathname === "/api/auth/signout" && req.method === "POST") {
+    const sessionId = getCookie(req, SESSION_COOKIE);
+    if (sessionId) signOut(sessionId);
+    return Response.json(
+      { success: true },
+      { headers: { "Set-Cookie": serializeCookie(SESSION_COOKIE, "", 0, url) } }
+    );
+  }
+
+  // Picker API proxy for browsers signed in through the server, which adds
+  // the token they don't have
+  if (url.pathname.startsWith("/api/picker/")) {
+    const sessionId = getCookie(req, SESSION_COOKIE);
+    if (!sessionId || !isSignedIn(sessionId)) {
+      return Response.json(
+        { error: "Sign in with Google first" },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const response = await fetch(
+        `${PICKER_API}${url.pathname.slice("/api/picker".length)}${url.search}`,
+        {
+          method: req.method,
+          headers: {
+            Authorization: `Bearer ${await getAccessToken(sessionId)}`,
+            "Content-Type": "application/json",
+          },
+          body: req.method === "GET" ? undefined : await req.text(),
+        }
+      );
+      return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: {
+          "Content-Type":
+            response.headers.get("Content-Type") ?? "application/json",
+        },
+      });
+    } catch (error) {
+      return Response.json(
+        { error: error instanceof Error ? error.message : "Unknown error" },
+        { status: 502 }
+      );
+    }
+  }
+
+  // Default download settings endpoints
+  if (url.pathname === "/api/settings/defaults") {
+    if (req.method === "GET") {
+      return Response.json(
+        parseDownloadSettings(getStoredSetting(DEFAULT_SETTINGS_KEY))
+      );
+    }
+    if (req.method === "PUT") {
+      try {
+        const settings = await req.json();
+        if (typeof settings !== "object" || !settings) {
+          throw new Error("Settings must be an object");
+        }
+        saveStoredSetting(
+          DEFAULT_SETTINGS_KEY,
+          serializeDownloadSettings(settings)
+        );
+        return Response.json({ success: true });
+      } catch (error) {
+        return Response.json(
+          {
+            success: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+          },
+          { status: 400 }
+        );
+      }
+    }
+    if (req.method === "DELETE") {
+      deleteStoredSetting(DEFAULT_SETTINGS_KEY);
+      return Response.json({ success: true });
+    }
+  }
+
+  // Server configuration endpoint
+  if (url.pathname === "/api/config" && req.method === "GET") {
+    return Response.json({ outputDir: getOutputDir() });
+  }
+
+  // Existing files in a server output folder
+  if (url.pathname === "/api/output/existing" && req.method === "POST") {
+    try {
+      const { folder, filenames } = (await req.json()) as {
+        folder: string;
+        filenames: string[];
+      };
+      const outputDir = resolveOutputFolder(folder);
+      const existing = filenames.filter(
+        (filename) =>
+          isSafeTargetPath(filename) && existsSync(join(outputDir, filename))
+      );
+
+      return Response.json({ outputDir, existing });
+    } catch (error) {
+      return Response.json(
+        {
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  // Sync manifest of a server output folder
+  if (url.pathname === "/api/output/manifest" && req.method === "GET") {
+    try {
+      const outputDir = resolveOutputFolder(
+        url.searchParams.get("folder") ?? ""
+      );
+      return Response.json(readManifest(outputDir));
+    } catch (error) {
+      return Response.json(
+        {
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  // Cleanup endpoint
+  if (url.pathname === "/api/cleanup" && req.method === "POST") {
+    const { progressId } = await req.json();
+    if (typeof progressId !== "string" || !canAccessJob(req, progressId)) {
+      return jobNotFound();
+    }
+
+    // A running job is cancelled first and removed once it has stopped
+    const control = jobControls.get(progressId);
+    if (control) {
+      control.cleanupWhenDone = true;
+      cancelJob(control);
+      return Response.json({ success: true });
+    }
+
+    try {
+      removeJob(progressId);
+      return Response.json({ success: true });
+    } catch {
+      return Response.json({ error: "Cleanup failed" }, { status: 500 });
+    }
+  }
+
+  // Unknown API endpoint
+  return new Response("Not Found", { status: 404 });
+}
+
+// The authorization-code sign-in, when the server holds the tokens
+async function handleAuthRequest(req: Request, url: URL): Promise<Response> {
+  if (!isServerAuthEnabled()) {
+    return new Response("Server sign-in is not configured", { status: 404 });
+  }
+
+  if (url.pathname === "/auth/start" && req.method === "GET") {
+    const { url: authUrl, state } = createAuthUrl(url.origin);
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: authUrl,
+        "Set-Cookie": serializeCookie(
+          STATE_COOKIE,
+          state,
+          STATE_MAX_AGE_S,
+          url
+        ),
+      },
+    });
+  }
+
+  if (url.pathname === "/auth/callback" && req.method === "GET") {
+    const state = url.searchParams.get("state");
+    const code = url.searchParams.get("code");
+    if (url.searchParams.get("error") || !code) {
+      return new Response(
+        `Google sign-in failed: ${url.searchParams.get("error") ?? "no code"}`,
+        { status: 400 }
+      );
+    }
+    if (!state || state !== getCookie(req, STATE_COOKIE)) {
+      return new Response(
+        "Google sign-in failed: it was started in another browser or expired",
+        { status: 400 }
+      );
+    }
+
+    try {
+      const sessionId = await completeSignIn(code, url.origin);
+      const headers = new Headers({ Location: "/" });
+      headers.append(
+        "Set-Cookie",
+        serializeCookie(SESSION_COOKIE, sessionId, SESSION_MAX_AGE_S, url)
+      );
+      headers.append("Set-Cookie", serializeCookie(STATE_COOKIE, "", 0, url));
+      return new Response(null, { status: 302, headers });
+    } catch (error) {
+      console.error("Google sign-in failed:", error);
+      return new Response(
+        `Google sign-in failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        { status: 400 }
+      );
+    }
+  }
+
+  return new Response("Not Found", { status: 404 });
+}
+
+export function startServer({
+  port,
+  serveStatic,
+  staticDescription,
+}: ServerOptions) {
+  const server = Bun.serve({
+    port,
+    fetch(req) {
+      const url = new URL(req.url);
+
+      // API endpoints
+      if (url.pathname.startsWith("/api/")) {
+        return handleApiRequest(req, url);
+      }
+
+      // Server sign-in endpoints
+      if (url.pathname.startsWith("/auth/")) {
+        return handleAuthRequest(req, url);
+      }
+
+      return serveStatic(url);
+    },
+  });
+
+  // Pick up any downloads that were running when the server last stopped
+  restoreJobs();
+
+  console.log(
+    `🚀 Google Photos Sync server running at http://localhost:${server.port}`
+  );
+  console.log(staticDescription);
+  const outputDir = getOutputDir();
+  if (outputDir) {
+    console.log(`💾 Files can be saved directly to ${outputDir}`);
+  }
+  console.log(
+    `🔗 Open http://localhost:${server.port} in your browser to start syncing`
+  );
+
+  return server;
+}
@@ -0,0 +1,208 @@
+import { randomBytes } from "crypto";
+import { deleteAuthSession, getAuthSession, saveAuthSession } from "./jobStore";
+
+// The optional authorization-code sign-in. With GOOGLE_CLIENT_SECRET set the
+// server signs in with Google itself and keeps the access and refresh tokens,
+// so the browser only holds a session cookie. Jobs started this way refresh
+// their token as they run, instead of stopping when it expires after an hour.
+
+const AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const TOKEN_URL = "https://oauth2.googleapis.com/token";
+const REVOKE_URL = "https://oauth2.googleapis.com/revoke";
+const USERINFO_URL = "https://www.googleapis.com/oauth2/v2/userinfo";
+
+const SCOPES = [
+  "https://www.googleapis.com/auth/photospicker.mediaitems.readonly",
+  "email",
+  "profile",
+];
+
+export const SESSION_COOKIE = "google_photos_sync_session";
+export const STATE_COOKIE = "google_photos_sync_state"; // Ties the callback to the browser that started it
+
+export const SESSION_MAX_AGE_S = 30 * 24 * 60 * 60;
+export const STATE_MAX_AGE_S = 10 * 60;
+
+const REFRESH_MARGIN_MS = 60 * 1000; // Tokens this close to expiring are refreshed first
+
+export interface AuthUser {
+  name: string;
+  email: string;
+  picture: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+}
+
+// Refreshes in flight, so parallel downloads share one
+const refreshes: Map<string, Promise<string>> = new Map();
+
+export function isServerAuthEnabled(): boolean {
+  return (
+    !!process.env.GOOGLE_CLIENT_SECRET && !!process.env.VITE_GOOGLE_CLIENT_ID
+  );
+}
+
+// Google only redirects to URIs registered for the client
+function getRedirectUri(origin: string): string {
+  return `${origin}/auth/callback`;
+}
+
+export function createAuthUrl(origin: string): { url: string; state: string } {
+  const state = randomBytes(16).toString("hex");
+  const params = new URLSearchParams({
+    client_id: process.env.VITE_GOOGLE_CLIENT_ID!,
+    redirect_uri: getRedirectUri(origin),
+    response_type: "code",
+    scope: SCOPES.join(" "),
+    // A refresh token is only handed out with consent, and only when asked for
+    access_type: "offline",
+    prompt: "consent",
+    state,
+  });
+  return { url: `${AUTH_URL}?${params}`, state };
+}
+
+async function requestTokens(
+  params: Record<string, string>
+): Promise<TokenResponse> {
+  const response = await fetch(TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: process.env.VITE_GOOGLE_CLIENT_ID!,
+      client_secret: process.env.GOOGLE_CLIENT_SECRET!,
+      ...params,
+    }),
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(
+      result.error_description ||
+        result.error ||
+        `HTTP ${response.status}: ${response.statusText}`
+    );
+  }
+  return result as TokenResponse;
+}
+
+async function fetchUser(accessToken: string): Promise<AuthUser | null> {
+  try {
+    const response = await fetch(USERINFO_URL, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!response.ok) return null;
+    const { name, email, picture } = await response.json();
+    return { name, email, picture };
+  } catch (error) {
+    console.warn("Could not fetch the Google profile:", error);
+    return null;
+  }
+}
+
+// Exchange the code Google sent to /auth/callback, returns the new session id
+export async function completeSignIn(
+  code: string,
+  origin: string
+): Promise<string> {
+  const tokens = await requestTokens({
+    code,
+    grant_type: "authorization_code",
+    redirect_uri: getRedirectUri(origin),
+  });
+  const user = await fetchUser(tokens.access_token);
+
+  const id = randomBytes(32).toString("hex");
+  saveAuthSession({
+    id,
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token ?? null,
+    expiresAt: Date.now() + tokens.expires_in * 1000,
+    user: user ? JSON.stringify(user) : null,
+  });
+  return id;
+}
+
+// A current access token for the session, refreshed when it is about to expire
+export function getAccessToken(sessionId: string): Promise<string> {
+  const inFlight = refreshes.get(sessionId);
+  if (inFlight) return inFlight;
+
+  const session = getAuthSession(sessionId);
+  if (!session) {
+    return Promise.reject(new Error("Not signed in with Google"));
+  }
+  if (session.expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+    return Promise.resolve(session.accessToken);
+  }
+  if (!session.refreshToken) {
+    return Promise.reject(new Error("Google sign-in expired"));
+  }
+
+  const refresh = requestTokens({
+    grant_type: "refresh_token",
+    refresh_token: session.refreshToken,
+  })
+    .then((tokens) => {
+      saveAuthSession({
+        ...session,
+        accessToken: tokens.access_token,
+        expiresAt: Date.now() + tokens.expires_in * 1000,
+      });
+      return tokens.access_token;
+    })
+    .finally(() => refreshes.delete(sessionId));
+  refreshes.set(sessionId, refresh);
+  return refresh;
+}
+
+export function getSessionUser(sessionId: string): AuthUser | null {
+  const user = getAuthSession(sessionId)?.user;
+  return user ? (JSON.parse(user) as AuthUser) : null;
+}
+
+export function isSignedIn(sessionId: string): boolean {
+  return !!getAuthSession(sessionId);
+}
+
+// Forget the session and revoke its tokens with Google
+export function signOut(sessionId: string) {
+  const session = getAuthSession(sessionId);
+  if (!session) return;
+
+  deleteAuthSession(sessionId);
+  const token = session.refreshToken ?? session.accessToken;
+  fetch(`${REVOKE_URL}?token=${encodeURIComponent(token)}`, {
+    method: "POST",
+  }).catch((error) =>
+    console.warn("Could not revoke the Google token:", error)
+  );
+}
+
+export function getCookie(req: Request, name: string): string | null {
+  for (const cookie of req.headers.get("Cookie")?.split(";") ?? []) {
+    const [key, ...value] = cookie.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+// HttpOnly so scripts can't read it, Secure whenever the server is reached over HTTPS
+export function serializeCookie(
+  name: string,
+  value: string,
+  maxAgeSeconds: number,
+  url: URL
+): string {
+  return [
+    `${name}=${encodeURIComponent(value)}`,
+    "Path=/",
+    `Max-Age=${maxAgeSeconds}`,
+    "HttpOnly",
+    "SameSite=Lax",
+    ...(url.protocol === "https:" ? ["Secure"] : []),
+  ].join("; ");
+}
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { resolve } from "path";
+import { parseCliArgs } from "./cli";
+
+describe("parseCliArgs", () => {
+  test("serves on port 3000 without a command", () => {
+    expect(parseCliArgs([])).toMatchObject({ command: "serve", port: 3000 });
+    expect(parseCliArgs(["--port", "8080", "-o", "photos"])).toMatchObject({
+      port: 8080,
+      outputDir: resolve("photos"),
+    });
+    expect(parseCliArgs(["sync", "--help"]).command).toBe("help");
+  });
+
+  test("turns sync flags into download settings", () => {
+    const options = parseCliArgs([
+      "sync",
+      "--token",
+      "abc",
+      "--no-videos",
+      "--image-quality",
+      "medium",
+      "--image-max-width",
+      "2048",
+      "-c",
+      "8",
+      "--folders",
+      "{yyyy}/{MM}",
+      "--on-name-clash",
+      "skip",
+    ]);
+    expect(options.command).toBe("sync");
+    expect(options.oauthToken).toBe("abc");
+    expect(options.downloadSettings).toMatchObject({
+      includePhotos: true,
+      includeVideos: false,
+      imageQuality: "medium",
+      imageMaxWidth: 2048,
+      concurrency: 8,
+      folderTemplate: "{yyyy}/{MM}",
+      collisionStrategy: "skip",
+    });
+  });
+
+  test("rejects sync flags when serving", () => {
+    expect(() => parseCliArgs(["--concurrency", "4"])).toThrow(
+      "--concurrency only applies to sync"
+    );
+    expect(() => parseCliArgs(["--no-videos"])).toThrow(
+      "--no-videos only applies to sync"
+    );
+  });
+
+  test("rejects values it can't use", () => {
+    expect(() => parseCliArgs(["sync", "-c", "17"])).toThrow(
+      "--concurrency must be at most 16"
+    );
+    expect(() => parseCliArgs(["sync", "-c", "0"])).toThrow("--concurrency");
+    expect(() => parseCliArgs(["sync", "--image-quality", "best"])).toThrow(
+      "--image-quality"
+    );
+    expect(() => parseCliArgs(["sync", "--rename", "{mmm}"])).toThrow(
+      "--rename: Unknown token {mmm}"
+    );
+    expect(() => parseCliArgs(["sync", "--no-photos", "--no-videos"])).toThrow(
+      "leave nothing to sync"
+    );
+    expect(() => parseCliArgs(["upload"])).toThrow('Unknown command "upload"');
+  });
+});
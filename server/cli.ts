@@ -0,0 +1,214 @@
+import { resolve } from "path";
+import { parseArgs } from "util";
+import { validateFolderTemplate, validateRenameTemplate } from "../src/naming";
+import { MAX_CONCURRENCY } from "../src/settings";
+import type { DownloadSettings } from "../src/types";
+
+// Command line handling for the standalone binary. Without a command it runs
+// the web server, `sync` downloads a picker selection straight to disk.
+
+export interface CliOptions {
+  command: "serve" | "sync" | "help";
+  port: number;
+  outputDir?: string;
+  oauthToken?: string;
+  downloadSettings: DownloadSettings;
+}
+
+const imageQualities = ["original", "high", "medium", "low"] as const;
+const videoQualities = ["original", "high", "thumbnail"] as const;
+const collisionStrategies = ["suffix", "id-suffix", "skip"] as const;
+
+// The web app chooses these for each download, so only sync takes them
+const SYNC_ONLY_OPTIONS = [
+  "concurrency",
+  "token",
+  "no-photos",
+  "no-videos",
+  "image-quality",
+  "image-max-width",
+  "image-max-height",
+  "image-crop",
+  "capture-date",
+  "sidecars",
+  "video-quality",
+  "video-remove-overlay",
+  "folders",
+  "rename",
+  "on-name-clash",
+  "skip-duplicates",
+] as const;
+
+export const helpText = `Google Photos Picker Sync
+
+Usage:
+  google-photos-sync [options]          Start the web app (default)
+  google-photos-sync sync [options]     Pick photos and download them without the web app
+
+Options:
+  -h, --help                  Show this help
+  -p, --port <port>           Port for the web app (default: 3000)
+  -o, --output <dir>          Directory files are written to. sync defaults to the current
+                              directory, the web app can then save straight into it
+
+Sync options (the web app chooses these for each download):
+  -c, --concurrency <n>       Files downloaded in parallel, 1-${MAX_CONCURRENCY} (default: 4)
+      --token <token>         OAuth access token (or set GOOGLE_OAUTH_TOKEN)
+      --no-photos             Skip photos
+      --no-videos             Skip videos
+      --image-quality <q>     ${imageQualities.join(", ")} (default: original)
+      --image-max-width <px>  Resize images to at most this width
+      --image-max-height <px> Resize images to at most this height
+      --image-crop            Crop images to the exact width and height
+      --capture-date          Write the date taken into resized images, which lose it
+      --sidecars              Save a <filename>.json with each item's details next to it
+      --video-quality <q>     ${videoQualities.join(", ")} (default: original)
+      --video-remove-overlay  Remove the play button overlay from video thumbnails
+      --folders <template>    Sort files into folders by date or type, e.g. "{yyyy}/{MM}",
+                              "{yyyy}/{yyyy-MM-dd}" or "{type}/{yyyy}" (dates in UTC)
+      --rename <template>     Rename files, e.g. "{yyyy-MM-dd}_{HHmmss}_{name}{ext}". Takes
+                              date patterns, {name}, {ext}, {id} and {counter}
+      --on-name-clash <s>     When picked files share a name: suffix numbers them,
+                              id-suffix adds the photo id, skip keeps the oldest
+                              (default: suffix)
+      --skip-duplicates       Don't keep files whose content is already in the output
+                              directory under another name
+
+The sync token needs the https://www.googleapis.com/auth/photospicker.mediaitems.readonly scope.`;
+
+function parsePositiveInteger(
+  value: string | undefined,
+  flag: string,
+  max?: number
+) {
+  if (value === undefined) return undefined;
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`${flag} must be a positive whole number, got "${value}"`);
+  }
+  if (max !== undefined && number > max) {
+    throw new Error(`${flag} must be at most ${max}, got "${value}"`);
+  }
+  return number;
+}
+
+function parseChoice<T extends string>(
+  value: string | undefined,
+  choices: readonly T[],
+  flag: string
+): T | undefined {
+  if (value === undefined) return undefined;
+
+  if (!choices.includes(value as T)) {
+    throw new Error(`${flag} must be one of ${choices.join(", ")}`);
+  }
+  return value as T;
+}
+
+export function parseCliArgs(args: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      help: { type: "boolean", short: "h" },
+      port: { type: "string", short: "p" },
+      output: { type: "string", short: "o" },
+      concurrency: { type: "string", short: "c" },
+      token: { type: "string" },
+      "no-photos": { type: "boolean" },
+      "no-videos": { type: "boolean" },
+      "image-quality": { type: "string" },
+      "image-max-width": { type: "string" },
+      "image-max-height": { type: "string" },
+      "image-crop": { type: "boolean" },
+      "capture-date": { type: "boolean" },
+      sidecars: { type: "boolean" },
+      "video-quality": { type: "string" },
+      "video-remove-overlay": { type: "boolean" },
+      folders: { type: "string" },
+      rename: { type: "string" },
+      "on-name-clash": { type: "string" },
+      "skip-duplicates": { type: "boolean" },
+    },
+  });
+
+  const [command, ...extra] = positionals;
+  if (extra.length > 0 || (command && command !== "sync")) {
+    throw new Error(`Unknown command "${positionals.join(" ")}"`);
+  }
+
+  if (command !== "sync" && !values.help) {
+    const syncOnly = SYNC_ONLY_OPTIONS.find(
+      (option) => values[option] !== undefined
+    );
+    if (syncOnly) {
+      throw new Error(
+        `--${syncOnly} only applies to sync, the web app chooses download settings for each download`
+      );
+    }
+  }
+
+  if (values["no-photos"] && values["no-videos"]) {
+    throw new Error("--no-photos and --no-videos leave nothing to sync");
+  }
+
+  const folderTemplateError =
+    values.folders && validateFolderTemplate(values.folders);
+  if (folderTemplateError) {
+    throw new Error(`--folders: ${folderTemplateError}`);
+  }
+  const renameTemplateError =
+    values.rename && validateRenameTemplate(values.rename);
+  if (renameTemplateError) {
+    throw new Error(`--rename: ${renameTemplateError}`);
+  }
+
+  return {
+    command: values.help ? "help" : command === "sync" ? "sync" : "serve",
+    port: parsePositiveInteger(values.port, "--port") ?? 3000,
+    outputDir: values.output ? resolve(values.output) : undefined,
+    oauthToken: values.token ?? process.env.GOOGLE_OAUTH_TOKEN,
+    downloadSettings: {
+      includePhotos: !values["no-photos"],
+      includeVideos: !values["no-videos"],
+      imageQuality:
+        parseChoice(
+          values["image-quality"],
+          imageQualities,
+          "--image-quality"
+        ) ?? "original",
+      imageMaxWidth: parsePositiveInteger(
+        values["image-max-width"],
+        "--image-max-width"
+      ),
+      imageMaxHeight: parsePositiveInteger(
+        values["image-max-height"],
+        "--image-max-height"
+      ),
+      imageCrop: values["image-crop"] ?? false,
+      writeCaptureDate: values["capture-date"] ?? false,
+      videoQuality:
+        parseChoice(
+          values["video-quality"],
+          videoQualities,
+          "--video-quality"
+        ) ?? "original",
+      videoRemoveOverlay: values["video-remove-overlay"] ?? false,
+      concurrency: parsePositiveInteger(
+        values.concurrency,
+        "--concurrency",
+        MAX_CONCURRENCY
+      ),
+      folderTemplate: values.folders || undefined,
+      renameTemplate: values.rename || undefined,
+      collisionStrategy: parseChoice(
+        values["on-name-clash"],
+        collisionStrategies,
+        "--on-name-clash"
+      ),
+      skipDuplicateContent: values["skip-duplicates"] ?? false,
+      writeSidecars: values.sidecars ?? false,
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import { categorizeStatus, getBackoffDelay, parseRetryAfter } from "./download";
+
+test("categorizeStatus", () => {
+  expect(categorizeStatus(401)).toBe("unauthorized");
+  expect(categorizeStatus(403)).toBe("expired");
+  expect(categorizeStatus(404)).toBe("not-found");
+  expect(categorizeStatus(429)).toBe("throttled");
+  expect(categorizeStatus(503)).toBe("server");
+  expect(categorizeStatus(400)).toBe("unknown");
+});
+
+describe("parseRetryAfter", () => {
+  test("reads seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    const inOneMinute = new Date(Date.now() + 60_000).toUTCString();
+    expect(parseRetryAfter(inOneMinute)).toBeGreaterThan(58_000);
+  });
+
+  test("is capped and ignores what it can't read", () => {
+    expect(parseRetryAfter("86400")).toBe(10 * 60 * 1000);
+    expect(parseRetryAfter("-5")).toBe(0);
+    expect(parseRetryAfter("soon")).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+});
+
+test("getBackoffDelay doubles up to a ceiling", () => {
+  const random = spyOn(Math, "random").mockReturnValue(0.999999);
+  expect(getBackoffDelay(1)).toBeCloseTo(1000, -1);
+  expect(getBackoffDelay(3)).toBeCloseTo(4000, -1);
+  expect(getBackoffDelay(10)).toBeCloseTo(30000, -1);
+  random.mockRestore();
+});
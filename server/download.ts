@@ -0,0 +1,211 @@
+import { renameSync, rmSync } from "fs";
+import { CryptoHasher, file } from "bun";
+import type { FailureCategory } from "../src/types";
+
+// Downloads a single media file: rate limited per host, streamed to disk and
+// retried when the failure looks transient.
+
+const HOST_REQUEST_INTERVAL_MS = 100; // Minimum gap between requests to the same host
+
+// Next free request slot per host, shared by every download job
+const nextHostSlot: Map<string, number> = new Map();
+
+// Retry configuration
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+const RETRY_AFTER_MAX_MS = 10 * 60 * 1000;
+
+export interface DownloadResult {
+  size: number;
+  sha256: string; // Hex digest, hashed while the file streams to disk
+}
+
+export class DownloadError extends Error {
+  category: FailureCategory;
+  status: number | null;
+  retryAfterMs: number | null;
+  attempts = 1;
+
+  constructor(
+    message: string,
+    category: FailureCategory,
+    status: number | null = null,
+    retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "DownloadError";
+    this.category = category;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Wait until we're allowed to send another request to the url's host
+async function waitForHostSlot(url: string) {
+  const host = new URL(url).host;
+  const now = Date.now();
+  const slot = Math.max(now, nextHostSlot.get(host) ?? 0);
+  nextHostSlot.set(host, slot + HOST_REQUEST_INTERVAL_MS);
+
+  if (slot > now) {
+    await new Promise((resolve) => setTimeout(resolve, slot - now));
+  }
+}
+
+async function downloadFile(
+  url: string,
+  filepath: string,
+  oauthToken: string,
+  signal: AbortSignal,
+  onBytes?: (bytesReceived: number, totalBytes: number | null) => void
+): Promise<DownloadResult> {
+  await waitForHostSlot(url);
+
+  const response = await fetch(url, {
+    signal,
+    headers: {
+      Authorization: `Bearer ${oauthToken}`,
+      "User-Agent": "Google-Photos-Sync/1.0",
+    },
+  });
+
+  if (!response.ok) {
+    throw new DownloadError(
+      `HTTP ${response.status}: ${response.statusText}`,
+      categorizeStatus(response.status),
+      response.status,
+      parseRetryAfter(response.headers.get("Retry-After"))
+    );
+  }
+
+  if (!response.body) {
+    throw new DownloadError("Empty response body", "server", response.status);
+  }
+
+  const contentLength = Number(response.headers.get("Content-Length"));
+  const totalBytes = contentLength > 0 ? contentLength : null;
+
+  // Stream the body to disk so large videos are never held in memory. It goes
+  // to a partial file first so an interrupted download never looks finished.
+  const partialPath = `${filepath}.part`;
+  const reader = response.body.getReader();
+  const writer = file(partialPath).writer();
+  const hasher = new CryptoHasher("sha256");
+  let bytesReceived = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      writer.write(value);
+      hasher.update(value);
+      bytesReceived += value.byteLength;
+      onBytes?.(bytesReceived, totalBytes);
+    }
+    await writer.end();
+  } catch (error) {
+    await writer.end();
+    rmSync(partialPath, { force: true });
+    throw error;
+  }
+
+  renameSync(partialPath, filepath);
+  return { size: bytesReceived, sha256: hasher.digest("hex") };
+}
+
+export function categorizeStatus(status: number): FailureCategory {
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "expired";
+  if (status === 404) return "not-found";
+  if (status === 429) return "throttled";
+  if (status >= 500) return "server";
+  return "unknown";
+}
+
+function isRetryable(category: FailureCategory): boolean {
+  return (
+    category === "throttled" || category === "server" || category === "network"
+  );
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  const delay = !isNaN(seconds)
+    ? seconds * 1000
+    : new Date(header).getTime() - Date.now();
+
+  if (isNaN(delay)) return null;
+  return Math.min(Math.max(delay, 0), RETRY_AFTER_MAX_MS);
+}
+
+// Exponential backoff with full jitter
+export function getBackoffDelay(attempt: number): number {
+  const ceiling = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+    RETRY_MAX_DELAY_MS
+  );
+  return Math.random() * ceiling;
+}
+
+// Resolves after the delay, or rejects as soon as the signal aborts
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+
+    const timeout = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+// Download a file, retrying throttling, server and network errors
+export async function downloadWithRetry(
+  url: string,
+  filepath: string,
+  oauthToken: string,
+  signal: AbortSignal,
+  onAttempt: (attempt: number) => void,
+  onBytes?: (bytesReceived: number, totalBytes: number | null) => void
+): Promise<DownloadResult> {
+  for (let attempt = 1; ; attempt++) {
+    onAttempt(attempt);
+
+    try {
+      return await downloadFile(url, filepath, oauthToken, signal, onBytes);
+    } catch (error) {
+      // Paused or cancelled, let the caller decide what happens next
+      if (signal.aborted) throw error;
+
+      const downloadError =
+        error instanceof DownloadError
+          ? error
+          : new DownloadError(
+              error instanceof Error ? error.message : String(error),
+              "network"
+            );
+      downloadError.attempts = attempt;
+
+      if (!isRetryable(downloadError.category) || attempt >= MAX_ATTEMPTS) {
+        throw downloadError;
+      }
+
+      const delay = downloadError.retryAfterMs ?? getBackoffDelay(attempt);
+      console.warn(
+        `Retrying ${filepath} in ${Math.round(
+          delay
+        )}ms (attempt ${attempt} failed: ${downloadError.message})`
+      );
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import type { DownloadSettings } from "../src/types";
+
+// Original downloads (=d and =dv) keep the file's own metadata, resized images
+// and video thumbnails come back without it
+export function keepsMetadata(downloadUrl: string): boolean {
+  return /=dv?$/.test(downloadUrl);
+}
+
+// Generate the correct Google Photos download URL based on settings
+export function generateDownloadUrl(
+  baseUrl: string,
+  mediaType: "PHOTO" | "VIDEO",
+  mimeType: string,
+  settings?: DownloadSettings
+): string {
+  if (!settings) {
+    // Fallback to original logic
+    const isVideo = mediaType === "VIDEO" || mimeType.startsWith("video/");
+    return `${baseUrl}=${isVideo ? "dv" : "d"}`;
+  }
+
+  const isVideo = mediaType === "VIDEO" || mimeType.startsWith("video/");
+
+  if (isVideo) {
+    // Video download settings
+    if (settings.videoQuality === "thumbnail") {
+      // Download thumbnail
+      let params = "w1280-h720";
+      if (settings.videoRemoveOverlay) {
+        params += "-no";
+      }
+      return `${baseUrl}=${params}`;
+    } else {
+      // Download full video (original or high)
+      return `${baseUrl}=dv`;
+    }
+  } else {
+    // Image download settings
+    if (settings.imageQuality === "original") {
+      return `${baseUrl}=d`;
+    }
+
+    // Custom or preset quality
+    let width: number, height: number;
+
+    if (settings.imageMaxWidth && settings.imageMaxHeight) {
+      // Custom dimensions
+      width = settings.imageMaxWidth;
+      height = settings.imageMaxHeight;
+    } else {
+      // Preset quality levels
+      switch (settings.imageQuality) {
+        case "high":
+          width = 2048;
+          height = 2048;
+          break;
+        case "medium":
+          width = 1024;
+          height = 1024;
+          break;
+        case "low":
+          width = 512;
+          height = 512;
+          break;
+        default:
+          return `${baseUrl}=d`; // Fallback to original
+      }
+    }
+
+    let params = `w${width}-h${height}`;
+    if (settings.imageCrop) {
+      params += "-c";
+    }
+
+    return `${baseUrl}=${params}`;
+  }
+}
@@ -0,0 +1,6 @@
+// Files imported `with { type: "file" }` are embedded in the executable and
+// import as the path to read them from
+declare module "*.svg" {
+  const path: string;
+  export default path;
+}
@@ -0,0 +1,57 @@
+// Environment check function. The setup hint explains where this entrypoint
+// reads its .env file from.
+export function checkEnvironmentVariables(setupHint: string[]) {
+  const requiredVar = "VITE_GOOGLE_CLIENT_ID";
+  const value = process.env[requiredVar];
+
+  if (!value || value.trim() === "") {
+    console.error("");
+    console.error("🚨 SETUP REQUIRED: Missing Google Photos API Configuration");
+    console.error(
+      "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━"
+    );
+    console.error("");
+    console.error(
+      `❌ The ${requiredVar} environment variable is required to run this application.`
+    );
+    console.error("");
+    console.error(
+      "📖 PLEASE READ THE README FILE FOR COMPLETE SETUP INSTRUCTIONS:"
+    );
+    console.error(
+      "   https://github.com/mikecann/google-photos-picker-sync#google-cloud-console-setup"
+    );
+    console.error("");
+    console.error("📋 Quick Setup Summary:");
+    console.error(
+      "   1. Go to Google Cloud Console (https://console.cloud.google.com/)"
+    );
+    console.error("   2. Create a new project or select existing one");
+    console.error('   3. Enable "Google Photos Picker API"');
+    console.error("   4. Set up OAuth consent screen");
+    console.error("   5. Create OAuth 2.0 Client ID credentials");
+    console.error("   6. Copy your Client ID");
+    console.error(
+      "   7. Create a .env file with: VITE_GOOGLE_CLIENT_ID=your_client_id_here"
+    );
+    console.error("");
+    console.error(
+      "⚠️  IMPORTANT: The README contains detailed step-by-step instructions"
+    );
+    console.error(
+      "   with screenshots and troubleshooting to avoid common mistakes."
+    );
+    console.error("");
+    setupHint.forEach((line) => console.error(line));
+    console.error("");
+    console.error("🔄 After setup, restart this application.");
+    console.error("");
+    console.error(
+      "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━"
+    );
+    console.error("");
+    process.exit(1);
+  }
+
+  console.log(`✅ Environment check passed: ${requiredVar} is configured`);
+}
@@ -0,0 +1,245 @@
+import { Database } from "bun:sqlite";
+import { chmodSync, existsSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import type { JobStatus } from "../src/types";
+
+// Download jobs are persisted to a local SQLite file so that restarting the
+// server (or the standalone binary) can pick unfinished jobs back up. The
+// same file keeps a few settings, such as the default download settings, and
+// the Google sign-ins the server holds.
+
+export type JobItemState = "pending" | "downloaded" | "failed";
+
+export interface JobRecord {
+  id: string;
+  session: string; // JSON encoded SessionData
+  tempDir: string; // Where the files are written, a temp dir unless an output dir was given
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AuthSessionRecord {
+  id: string; // Sent to the browser as its session cookie
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: number; // When the access token expires
+  user: string | null; // JSON encoded Google profile
+}
+
+export interface JobItemRecord {
+  itemId: string;
+  itemIndex: number;
+  filename: string | null;
+  state: JobItemState;
+  size: number | null;
+  error: string | null; // JSON encoded DownloadFailure
+}
+
+const dbPath =
+  process.env.GOOGLE_PHOTOS_SYNC_DB ||
+  join(tmpdir(), "google-photos-sync-jobs.sqlite");
+
+// The stored sessions include OAuth tokens, so the database and the -wal and
+// -shm files SQLite keeps next to it are private to this user. The umask
+// covers the files SQLite creates while the schema is set up.
+const dbFiles = [dbPath, `${dbPath}-wal`, `${dbPath}-shm`];
+const previousUmask = process.umask(0o077);
+
+const db = new Database(dbPath, { create: true });
+
+db.exec("PRAGMA journal_mode = WAL;");
+db.exec("PRAGMA foreign_keys = ON;");
+db.exec(`
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    session TEXT NOT NULL,
+    temp_dir TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS job_items (
+    job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    item_index INTEGER NOT NULL,
+    item_id TEXT NOT NULL,
+    filename TEXT,
+    state TEXT NOT NULL,
+    size INTEGER,
+    error TEXT,
+    PRIMARY KEY (job_id, item_index)
+  );
+  CREATE TABLE IF NOT EXISTS auth_sessions (
+    id TEXT PRIMARY KEY,
+    access_token TEXT NOT NULL,
+    refresh_token TEXT,
+    expires_at INTEGER NOT NULL,
+    user TEXT,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`);
+
+process.umask(previousUmask);
+// Files left by an earlier run may have been created without it
+for (const file of dbFiles) {
+  if (existsSync(file)) chmodSync(file, 0o600);
+}
+
+const insertJob = db.prepare(
+  `INSERT INTO jobs (id, session, temp_dir, status, created_at, updated_at)
+   VALUES ($id, $session, $tempDir, 'running', $now, $now)`
+);
+const insertItem = db.prepare(
+  `INSERT INTO job_items (job_id, item_index, item_id, filename, state)
+   VALUES ($jobId, $itemIndex, $itemId, $filename, 'pending')`
+);
+const updateItem = db.prepare(
+  `UPDATE job_items SET state = $state, size = $size, error = $error,
+     filename = COALESCE($filename, filename)
+   WHERE job_id = $jobId AND item_id = $itemId`
+);
+const updateJobSession = db.prepare(
+  `UPDATE jobs SET session = $session, updated_at = $now WHERE id = $id`
+);
+const updateJobStatus = db.prepare(
+  `UPDATE jobs SET status = $status, updated_at = $now WHERE id = $id`
+);
+
+export const createJob = db.transaction(
+  (
+    id: string,
+    session: object,
+    tempDir: string,
+    items: Array<{ itemId: string; filename: string | null }>
+  ) => {
+    insertJob.run({
+      $id: id,
+      $session: JSON.stringify(session),
+      $tempDir: tempDir,
+      $now: Date.now(),
+    });
+    items.forEach((item, itemIndex) =>
+      insertItem.run({
+        $jobId: id,
+        $itemIndex: itemIndex,
+        $itemId: item.itemId,
+        $filename: item.filename,
+      })
+    );
+  }
+);
+
+export function markJobItem(
+  jobId: string,
+  itemId: string,
+  state: JobItemState,
+  details: { size?: number; error?: object; filename?: string } = {}
+) {
+  updateItem.run({
+    $jobId: jobId,
+    $itemId: itemId,
+    $state: state,
+    $size: details.size ?? null,
+    $error: details.error ? JSON.stringify(details.error) : null,
+    $filename: details.filename ?? null,
+  });
+}
+
+export function setJobSession(id: string, session: object) {
+  updateJobSession.run({
+    $id: id,
+    $session: JSON.stringify(session),
+    $now: Date.now(),
+  });
+}
+
+export function setJobStatus(id: string, status: JobStatus) {
+  updateJobStatus.run({ $id: id, $status: status, $now: Date.now() });
+}
+
+export function listJobs(): JobRecord[] {
+  return db
+    .query(
+      `SELECT id, session, temp_dir AS tempDir, status,
+              created_at AS createdAt, updated_at AS updatedAt
+       FROM jobs ORDER BY created_at`
+    )
+    .all() as JobRecord[];
+}
+
+export function getJob(id: string): JobRecord | null {
+  return db
+    .query(
+      `SELECT id, session, temp_dir AS tempDir, status,
+              created_at AS createdAt, updated_at AS updatedAt
+       FROM jobs WHERE id = $id`
+    )
+    .get({ $id: id }) as JobRecord | null;
+}
+
+export function getJobItems(jobId: string): JobItemRecord[] {
+  return db
+    .query(
+      `SELECT item_id AS itemId, item_index AS itemIndex, filename, state, size, error
+       FROM job_items WHERE job_id = $jobId ORDER BY item_index`
+    )
+    .all({ $jobId: jobId }) as JobItemRecord[];
+}
+
+export function getStoredSetting(key: string): string | null {
+  const row = db
+    .query(`SELECT value FROM settings WHERE key = $key`)
+    .get({ $key: key }) as { value: string } | null;
+  return row?.value ?? null;
+}
+
+export function saveStoredSetting(key: string, value: string) {
+  db.query(
+    `INSERT INTO settings (key, value) VALUES ($key, $value)
+     ON CONFLICT (key) DO UPDATE SET value = $value`
+  ).run({ $key: key, $value: value });
+}
+
+export function deleteStoredSetting(key: string) {
+  db.query(`DELETE FROM settings WHERE key = $key`).run({ $key: key });
+}
+
+export function saveAuthSession(session: AuthSessionRecord) {
+  db.query(
+    `INSERT INTO auth_sessions
+       (id, access_token, refresh_token, expires_at, user, created_at)
+     VALUES ($id, $accessToken, $refreshToken, $expiresAt, $user, $now)
+     ON CONFLICT (id) DO UPDATE SET access_token = $accessToken,
+       refresh_token = $refreshToken, expires_at = $expiresAt, user = $user`
+  ).run({
+    $id: session.id,
+    $accessToken: session.accessToken,
+    $refreshToken: session.refreshToken,
+    $expiresAt: session.expiresAt,
+    $user: session.user,
+    $now: Date.now(),
+  });
+}
+
+export function getAuthSession(id: string): AuthSessionRecord | null {
+  return db
+    .query(
+      `SELECT id, access_token AS accessToken, refresh_token AS refreshToken,
+              expires_at AS expiresAt, user
+       FROM auth_sessions WHERE id = $id`
+    )
+    .get({ $id: id }) as AuthSessionRecord | null;
+}
+
+export function deleteAuthSession(id: string) {
+  db.query(`DELETE FROM auth_sessions WHERE id = $id`).run({ $id: id });
+}
+
+export function deleteJob(id: string) {
+  db.query(`DELETE FROM jobs WHERE id = $id`).run({ $id: id });
+}
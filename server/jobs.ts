@@ -0,0 +1,710 @@
+import {
+  existsSync,
+  mkdirSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { dirname, join } from "path";
+import { tmpdir } from "os";
+import {
+  createJob,
+  deleteJob,
+  getJob,
+  getJobItems,
+  listJobs,
+  markJobItem,
+  setJobSession,
+  setJobStatus,
+} from "./jobStore";
+import type { JobRecord } from "./jobStore";
+import { getAccessToken } from "./auth";
+import { DownloadError, downloadWithRetry } from "./download";
+import { generateDownloadUrl, keepsMetadata } from "./downloadUrl";
+import { embedCaptureDate, writeXmpSidecar } from "./metadata";
+import {
+  hashFile,
+  indexDirectoryContent,
+  readManifest,
+  recordInManifest,
+} from "./manifest";
+import { hashFilesOfSize } from "../src/contentIndex";
+import { MANIFEST_FLUSH_INTERVAL, createManifestEntry } from "../src/manifest";
+import {
+  createSidecar,
+  getSidecarPath,
+  serializeSidecar,
+} from "../src/sidecar";
+import { isSafeTargetPath } from "../src/naming";
+import { MAX_CONCURRENCY } from "../src/settings";
+import type {
+  ActiveFile,
+  ContentIndex,
+  DownloadFailure,
+  DownloadProgress,
+  DownloadSettings,
+  DownloadedFile,
+  JobEvent,
+  ManifestEntry,
+  MediaItem,
+} from "../src/types";
+
+// The download job engine: runs jobs through a worker pool, tracks their
+// progress, lets them be paused, resumed and cancelled, and restores them
+// after a restart.
+
+// A download request, as posted to /api/download and persisted with the job
+export interface SessionData {
+  oauthToken?: string; // Browsers signed in through the server send a cookie instead
+  authSessionId?: string; // The server sign-in the job refreshes its token from
+  sessionId: string;
+  mediaItems: MediaItem[];
+  downloadSettings?: DownloadSettings;
+  timestamp: string;
+  progressId?: string; // Set when retrying failed items of an existing job
+  outputDir?: string; // Write files here instead of a temporary directory
+  outputFolder?: string; // Requested by the client, relative to the server output directory
+  archive?: boolean; // The browser downloads the files as one ZIP from /api/archive
+}
+
+export type JobListener = (event: JobEvent) => void;
+
+// Lets the API pause, resume and cancel a running job
+export interface JobControl {
+  progress: DownloadProgress;
+  oauthToken: string; // Replaced when the browser renews its Google sign-in
+  abortController: AbortController; // Replaced every time the job resumes
+  paused: boolean;
+  cancelled: boolean;
+  cleanupWhenDone: boolean;
+  resumeWaiters: Array<() => void>;
+}
+
+// Global progress tracking
+export const downloadProgress: Map<string, DownloadProgress> = new Map();
+export const downloadDirs: Map<string, string> = new Map(); // Maps progressId to the directory files are written to
+export const jobControls: Map<string, JobControl> = new Map(); // Only for running jobs
+// Jobs started with the server sign-in belong to the browser holding it
+const jobAuthSessions: Map<string, string> = new Map();
+const jobListeners: Map<string, Set<JobListener>> = new Map();
+
+// Worker pool configuration
+const DEFAULT_CONCURRENCY = Number(process.env.DOWNLOAD_CONCURRENCY) || 4;
+
+const PROGRESS_EVENT_INTERVAL_MS = 250; // Minimum gap between byte updates per file
+
+// Google Photos baseUrls stop working 60 minutes after they were picked
+export const BASE_URL_LIFETIME_MS = 60 * 60 * 1000;
+
+function resolveConcurrency(requested?: number): number {
+  if (!requested || !Number.isFinite(requested)) {
+    return Math.min(Math.max(DEFAULT_CONCURRENCY, 1), MAX_CONCURRENCY);
+  }
+  return Math.min(Math.max(Math.floor(requested), 1), MAX_CONCURRENCY);
+}
+
+// Run the worker over every item with at most `concurrency` items in flight
+async function runWorkerPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>
+) {
+  let nextIndex = 0;
+
+  const runners = Array.from(
+    { length: Math.min(concurrency, items.length) },
+    async () => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        await worker(items[index], index);
+      }
+    }
+  );
+
+  await Promise.all(runners);
+}
+
+function createJobControl(
+  progressId: string,
+  progress: DownloadProgress,
+  oauthToken: string
+): JobControl {
+  const control: JobControl = {
+    progress,
+    oauthToken,
+    abortController: new AbortController(),
+    paused: false,
+    cancelled: false,
+    cleanupWhenDone: false,
+    resumeWaiters: [],
+  };
+  jobControls.set(progressId, control);
+  return control;
+}
+
+export function pauseJob(control: JobControl) {
+  control.paused = true;
+  control.progress.status = "paused";
+  control.abortController.abort();
+}
+
+export function resumeJob(control: JobControl) {
+  control.paused = false;
+  control.progress.status = "running";
+  control.abortController = new AbortController();
+  control.resumeWaiters.splice(0).forEach((resume) => resume());
+}
+
+export function cancelJob(control: JobControl) {
+  control.cancelled = true;
+  control.paused = false;
+  control.abortController.abort();
+  control.resumeWaiters.splice(0).forEach((resume) => resume());
+}
+
+async function waitWhilePaused(control: JobControl) {
+  while (control.paused) {
+    await new Promise<void>((resolve) => control.resumeWaiters.push(resolve));
+  }
+}
+
+export function emitJobEvent(progressId: string, event: JobEvent) {
+  jobListeners.get(progressId)?.forEach((listener) => listener(event));
+}
+
+export function subscribeToJob(progressId: string, listener: JobListener) {
+  let listeners = jobListeners.get(progressId);
+  if (!listeners) {
+    listeners = new Set();
+    jobListeners.set(progressId, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) jobListeners.delete(progressId);
+  };
+}
+
+function getTempDir(progressId: string) {
+  return join(tmpdir(), `google-photos-sync-${progressId}`);
+}
+
+// Saved files get the time the photo was taken as their modification time, so
+// file managers sort them chronologically. A file system that doesn't support
+// it just keeps the download time.
+function setModifiedTime(path: string, createTime: string) {
+  const takenAt = new Date(createTime);
+  if (isNaN(takenAt.getTime())) return;
+
+  try {
+    utimesSync(path, takenAt, takenAt);
+  } catch (error) {
+    console.warn(`⚠️ Could not set the modification time of ${path}:`, error);
+  }
+}
+
+// Delete a job's temporary files and forget about it. Jobs writing to an
+// output directory keep their files.
+export function removeJob(progressId: string) {
+  const tempDir = getTempDir(progressId);
+  if (existsSync(tempDir)) {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+  downloadDirs.delete(progressId);
+  downloadProgress.delete(progressId);
+  jobAuthSessions.delete(progressId);
+  deleteJob(progressId);
+  emitJobEvent(progressId, { type: "removed" });
+}
+
+// The server sign-in the job was started with, if any
+export function getJobAuthSessionId(progressId: string): string | undefined {
+  return jobAuthSessions.get(progressId);
+}
+
+export async function processDownloads(
+  sessionData: SessionData,
+  progressId: string
+) {
+  const { oauthToken, mediaItems, downloadSettings } = sessionData;
+
+  // Create temporary directory for this download session, unless the files
+  // are going straight to an output directory
+  const downloadDir = sessionData.outputDir ?? getTempDir(progressId);
+  if (!existsSync(downloadDir)) {
+    mkdirSync(downloadDir, { recursive: true });
+  }
+  downloadDirs.set(progressId, downloadDir);
+
+  // Initialize progress, or reuse it when retrying so the totals stay correct
+  const existingProgress = downloadProgress.get(progressId);
+  const progress: DownloadProgress = existingProgress ?? {
+    total: mediaItems.length,
+    downloaded: 0,
+    failed: 0,
+    activeFiles: [],
+    status: "running",
+    isComplete: false,
+    errors: [],
+    files: [],
+  };
+
+  if (existingProgress) {
+    const retryIds = new Set(mediaItems.map((item) => item.id));
+    const remainingErrors = progress.errors.filter(
+      (error) => !retryIds.has(error.itemId)
+    );
+    progress.failed -= progress.errors.length - remainingErrors.length;
+    progress.errors = remainingErrors;
+    progress.status = "running";
+    progress.isComplete = false;
+
+    for (const item of mediaItems) {
+      markJobItem(progressId, item.id, "pending");
+    }
+    setJobStatus(progressId, "running");
+    // Retries come with the browser's current token
+    if (oauthToken) updateJobToken(progressId, oauthToken);
+  } else {
+    if (sessionData.authSessionId) {
+      jobAuthSessions.set(progressId, sessionData.authSessionId);
+    }
+    createJob(
+      progressId,
+      sessionData,
+      downloadDir,
+      mediaItems.map((item) => ({
+        itemId: item.id,
+        filename: item.targetPath ?? item.mediaFile?.filename ?? null,
+      }))
+    );
+  }
+
+  // Progress is updated in place, subscribers get incremental events
+  downloadProgress.set(progressId, progress);
+  emitJobEvent(progressId, { type: "snapshot", progress });
+
+  const recordFailure = (failure: DownloadFailure) => {
+    progress.failed++;
+    progress.errors.push(failure);
+    markJobItem(progressId, failure.itemId, "failed", { error: failure });
+    emitJobEvent(progressId, { type: "item-failed", failure });
+  };
+
+  // Jobs writing to an output directory keep its sync manifest up to date
+  const { outputDir } = sessionData;
+  let manifestEntries: Record<string, ManifestEntry> = {};
+  const flushManifest = () => {
+    if (!outputDir) return;
+    try {
+      recordInManifest(outputDir, manifestEntries);
+    } catch (error) {
+      console.error(
+        `Failed to update the sync manifest in ${outputDir}:`,
+        error
+      );
+    }
+    manifestEntries = {};
+  };
+
+  const keepsSidecars = !!outputDir || !!sessionData.archive;
+
+  const control = createJobControl(progressId, progress, oauthToken ?? "");
+  const concurrency = resolveConcurrency(downloadSettings?.concurrency);
+
+  // What the output directory already holds, so copies of it can be dropped
+  let contentIndex: ContentIndex | null = null;
+  if (outputDir && downloadSettings?.skipDuplicateContent) {
+    try {
+      contentIndex = indexDirectoryContent(outputDir);
+    } catch (error) {
+      console.error(`Failed to index the files in ${outputDir}:`, error);
+    }
+  }
+
+  // Process downloads
+  await runWorkerPool(mediaItems, concurrency, async (item, i) => {
+    const { mediaFile } = item;
+
+    // Don't start anything new while paused, and skip the rest once cancelled
+    await waitWhilePaused(control);
+    if (control.cancelled) return;
+
+    if (!mediaFile?.filename || !mediaFile?.baseUrl) {
+      const failure: DownloadFailure = {
+        itemId: item.id,
+        filename: mediaFile?.filename || `Item ${i + 1}`,
+        status: null,
+        attempts: 0,
+        category: "invalid",
+        message: "Missing filename or baseUrl",
+      };
+      recordFailure(failure);
+      return;
+    }
+
+    const { baseUrl } = mediaFile;
+    const filename = item.targetPath ?? mediaFile.filename;
+    if (!isSafeTargetPath(filename)) {
+      const failure: DownloadFailure = {
+        itemId: item.id,
+        filename,
+        status: null,
+        attempts: 0,
+        category: "invalid",
+        message: "Target path must stay inside the download directory",
+      };
+      recordFailure(failure);
+      return;
+    }
+    const targetPath = join(downloadDir, filename);
+
+    // Generate URL based on settings and media type
+    const downloadUrl = generateDownloadUrl(
+      baseUrl,
+      item.type,
+      mediaFile.mimeType,
+      downloadSettings
+    );
+
+    // Pausing aborts the download, so it starts over once the job resumes
+    while (true) {
+      await waitWhilePaused(control);
+      if (control.cancelled) return;
+
+      const { signal } = control.abortController;
+      const activeFile: ActiveFile = {
+        itemId: item.id,
+        filename,
+        bytesReceived: 0,
+        totalBytes: null,
+        attempt: 1,
+      };
+      progress.activeFiles.push(activeFile);
+      emitJobEvent(progressId, {
+        type: "item-started",
+        itemId: item.id,
+        filename,
+      });
+
+      let lastProgressEvent = 0;
+      const emitItemProgress = (force: boolean) => {
+        const now = Date.now();
+        if (!force && now - lastProgressEvent < PROGRESS_EVENT_INTERVAL_MS) {
+          return;
+        }
+        lastProgressEvent = now;
+        emitJobEvent(progressId, {
+          type: "item-progress",
+          itemId: item.id,
+          bytesReceived: activeFile.bytesReceived,
+          totalBytes: activeFile.totalBytes,
+          attempt: activeFile.attempt,
+        });
+      };
+
+      // Download the file
+      try {
+        mkdirSync(dirname(targetPath), { recursive: true });
+
+        // Server sign-ins are refreshed as the job runs
+        if (sessionData.authSessionId) {
+          control.oauthToken = await getAccessToken(
+            sessionData.authSessionId
+          ).catch((error) => {
+            throw new DownloadError(error.message, "unauthorized");
+          });
+        }
+
+        let { size, sha256 } = await downloadWithRetry(
+          downloadUrl,
+          targetPath,
+          control.oauthToken,
+          signal,
+          (attempt) => {
+            activeFile.attempt = attempt;
+            activeFile.bytesReceived = 0;
+            if (attempt > 1) emitItemProgress(true);
+          },
+          (bytesReceived, totalBytes) => {
+            activeFile.bytesReceived = bytesReceived;
+            activeFile.totalBytes = totalBytes;
+            emitItemProgress(false);
+          }
+        );
+
+        const captureDate =
+          downloadSettings?.writeCaptureDate && !keepsMetadata(downloadUrl)
+            ? embedCaptureDate(targetPath, item.createTime)
+            : null;
+        if (captureDate === "embedded") {
+          size = statSync(targetPath).size;
+          sha256 = await hashFile(targetPath);
+        }
+
+        const downloadedFile: DownloadedFile = {
+          itemId: item.id,
+          filename,
+          size,
+          ready: true,
+          sha256,
+          downloadParams: downloadUrl.slice(baseUrl.length + 1),
+        };
+
+        if (contentIndex) {
+          await hashFilesOfSize(contentIndex, size, (path) =>
+            hashFile(join(downloadDir, path))
+          );
+        }
+        const duplicateOf = contentIndex?.hashes.get(sha256);
+        if (duplicateOf !== undefined && duplicateOf !== filename) {
+          rmSync(targetPath, { force: true });
+          downloadedFile.duplicateOf = duplicateOf;
+        } else {
+          contentIndex?.hashes.set(sha256, filename);
+          setModifiedTime(targetPath, item.createTime);
+          if (captureDate === "unsupported") {
+            // Files the browser saves one by one get their sidecar from it
+            if (keepsSidecars) writeXmpSidecar(targetPath, item.createTime);
+            else downloadedFile.needsXmpSidecar = true;
+          }
+          if (downloadSettings?.writeSidecars && keepsSidecars) {
+            writeFileSync(
+              getSidecarPath(targetPath),
+              serializeSidecar(createSidecar(item, downloadedFile))
+            );
+          }
+        }
+
+        progress.downloaded++;
+        progress.files.push(downloadedFile);
+        markJobItem(progressId, item.id, "downloaded", {
+          size,
+          filename: duplicateOf,
+        });
+
+        if (outputDir) {
+          manifestEntries[item.id] = createManifestEntry(
+            item,
+            downloadedFile,
+            downloadSettings
+          );
+          if (Object.keys(manifestEntries).length >= MANIFEST_FLUSH_INTERVAL) {
+            flushManifest();
+          }
+        }
+        emitJobEvent(progressId, {
+          type: "item-completed",
+          itemId: item.id,
+          file: downloadedFile,
+        });
+      } catch (error) {
+        if (!signal.aborted) {
+          // Saving the file can fail too, after the download itself worked
+          const downloadError =
+            error instanceof DownloadError
+              ? error
+              : new DownloadError(
+                  error instanceof Error ? error.message : String(error),
+                  "unknown"
+                );
+          const failure: DownloadFailure = {
+            itemId: item.id,
+            filename,
+            status: downloadError.status,
+            attempts: downloadError.attempts,
+            category: downloadError.category,
+            message: downloadError.message,
+          };
+          recordFailure(failure);
+        } else {
+          emitJobEvent(progressId, { type: "item-stopped", itemId: item.id });
+        }
+      } finally {
+        // Update progress
+        progress.activeFiles.splice(
+          progress.activeFiles.indexOf(activeFile),
+          1
+        );
+      }
+
+      if (!signal.aborted) return;
+    }
+  });
+
+  flushManifest();
+  jobControls.delete(progressId);
+  if (control.cleanupWhenDone) {
+    removeJob(progressId);
+    return;
+  }
+
+  // Mark as complete (or cancelled)
+  const finalStatus = control.cancelled ? "cancelled" : "complete";
+  progress.status = finalStatus;
+  progress.isComplete = true;
+  progress.activeFiles = [];
+  setJobStatus(progressId, finalStatus);
+  emitJobEvent(progressId, {
+    type: "job-complete",
+    status: finalStatus,
+    downloaded: progress.downloaded,
+    failed: progress.failed,
+  });
+}
+
+// Files the job starts from now on use the new token, and so does the job if
+// it is resumed after a restart. False when there is no such job.
+export function updateJobToken(progressId: string, oauthToken: string) {
+  const job = getJob(progressId);
+  if (!job) return false;
+
+  setJobSession(progressId, { ...JSON.parse(job.session), oauthToken });
+  const control = jobControls.get(progressId);
+  if (control) control.oauthToken = oauthToken;
+  return true;
+}
+
+// Start downloading whatever a persisted job still has pending
+export function runPendingItems(job: JobRecord): number {
+  const session = JSON.parse(job.session) as SessionData;
+  const pendingIds = new Set(
+    getJobItems(job.id)
+      .filter((item) => item.state === "pending")
+      .map((item) => item.itemId)
+  );
+  const pendingItems = session.mediaItems.filter((item) =>
+    pendingIds.has(item.id)
+  );
+
+  processDownloads({ ...session, mediaItems: pendingItems }, job.id).catch(
+    console.error
+  );
+  return pendingItems.length;
+}
+
+// Reload persisted jobs after a restart and resume the unfinished ones
+export function restoreJobs() {
+  for (const job of listJobs()) {
+    // Finished and paused jobs can't be retried or resumed once their baseUrls
+    // expire, so their temporary files are only taking up space
+    if (
+      job.status !== "running" &&
+      Date.now() - job.createdAt >= BASE_URL_LIFETIME_MS
+    ) {
+      removeJob(job.id);
+      continue;
+    }
+
+    if (!existsSync(job.tempDir)) {
+      // Nothing left to serve or resume into
+      deleteJob(job.id);
+      continue;
+    }
+
+    const session = JSON.parse(job.session) as SessionData;
+    const progress: DownloadProgress = {
+      total: session.mediaItems.length,
+      downloaded: 0,
+      failed: 0,
+      activeFiles: [],
+      status: job.status,
+      isComplete: job.status === "complete" || job.status === "cancelled",
+      errors: [],
+      files: [],
+    };
+
+    for (const item of getJobItems(job.id)) {
+      if (
+        item.state === "downloaded" &&
+        item.filename &&
+        existsSync(join(job.tempDir, item.filename))
+      ) {
+        progress.downloaded++;
+        progress.files.push({
+          itemId: item.itemId,
+          filename: item.filename,
+          size: item.size ?? 0,
+          ready: true,
+        });
+      } else if (item.state === "failed" && item.error) {
+        progress.failed++;
+        progress.errors.push(JSON.parse(item.error) as DownloadFailure);
+      } else if (item.state !== "pending") {
+        // The file went missing, so it needs downloading again
+        markJobItem(job.id, item.itemId, "pending");
+      }
+    }
+
+    // Files may have finished after the manifest was last written
+    if (session.outputDir) {
+      try {
+        const recorded = readManifest(session.outputDir).items;
+        const manifestEntries: Record<string, ManifestEntry> = {};
+        for (const file of progress.files) {
+          const item = session.mediaItems.find(({ id }) => id === file.itemId);
+          if (item && !recorded[item.id]) {
+            manifestEntries[item.id] = createManifestEntry(
+              item,
+              file,
+              session.downloadSettings
+            );
+          }
+        }
+        recordInManifest(session.outputDir, manifestEntries);
+      } catch (error) {
+        console.error(
+          `Failed to update the sync manifest in ${session.outputDir}:`,
+          error
+        );
+      }
+    }
+
+    downloadDirs.set(job.id, job.tempDir);
+    downloadProgress.set(job.id, progress);
+    if (session.authSessionId) {
+      jobAuthSessions.set(job.id, session.authSessionId);
+    }
+
+    // Paused jobs wait for /resume, finished ones only need serving
+    if (job.status !== "running") continue;
+
+    if (Date.now() - job.createdAt < BASE_URL_LIFETIME_MS) {
+      const pendingCount = runPendingItems(job);
+      console.log(
+        `🔄 Resuming download ${job.id} (${pendingCount} of ${progress.total} files remaining)`
+      );
+    } else {
+      // The baseUrls have expired, so the remaining items can never succeed
+      const pendingIds = new Set(
+        getJobItems(job.id)
+          .filter((item) => item.state === "pending")
+          .map((item) => item.itemId)
+      );
+      const pendingItems = session.mediaItems.filter((item) =>
+        pendingIds.has(item.id)
+      );
+      console.log(
+        `⌛ Download ${job.id} expired before it could be resumed (${pendingItems.length} files not downloaded)`
+      );
+      for (const item of pendingItems) {
+        const failure: DownloadFailure = {
+          itemId: item.id,
+          filename: item.targetPath ?? item.mediaFile?.filename ?? item.id,
+          status: null,
+          attempts: 0,
+          category: "expired",
+          message: "Server restarted after the download links expired",
+        };
+        progress.failed++;
+        progress.errors.push(failure);
+        markJobItem(job.id, item.id, "failed", { error: failure });
+      }
+      progress.status = "complete";
+      progress.isComplete = true;
+      setJobStatus(job.id, "complete");
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  existsSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { join, sep } from "path";
+import { CryptoHasher, file } from "bun";
+import {
+  addExistingFile,
+  createContentIndex,
+  isIndexedFile,
+} from "../src/contentIndex";
+import {
+  MANIFEST_FILENAME,
+  emptyManifest,
+  mergeManifest,
+  parseManifest,
+  serializeManifest,
+} from "../src/manifest";
+import type { ContentIndex, ManifestEntry, SyncManifest } from "../src/types";
+
+// The sync manifest of directories the server writes to itself
+
+export function readManifest(dir: string): SyncManifest {
+  const manifestPath = join(dir, MANIFEST_FILENAME);
+  return existsSync(manifestPath)
+    ? parseManifest(readFileSync(manifestPath, "utf8"))
+    : emptyManifest();
+}
+
+export function recordInManifest(
+  dir: string,
+  entries: Record<string, ManifestEntry>
+) {
+  if (Object.keys(entries).length === 0) return;
+
+  const manifestPath = join(dir, MANIFEST_FILENAME);
+  const manifest = mergeManifest(readManifest(dir), entries);
+
+  // Replace the manifest in one step so a crash can't leave half of it behind
+  writeFileSync(`${manifestPath}.tmp`, serializeManifest(manifest));
+  renameSync(`${manifestPath}.tmp`, manifestPath);
+}
+
+export async function hashFile(filePath: string): Promise<string> {
+  const hasher = new CryptoHasher("sha256");
+  const reader = file(filePath).stream().getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hasher.update(value);
+  }
+  return hasher.digest("hex");
+}
+
+// List the files in the directory by size. Nothing is read yet, files are
+// hashed once a download is as big.
+export function indexDirectoryContent(dir: string): ContentIndex {
+  const recorded = new Map(
+    Object.values(readManifest(dir).items).map((entry) => [
+      entry.filename,
+      entry,
+    ])
+  );
+  const index = createContentIndex();
+
+  for (const relativePath of readdirSync(dir, {
+    recursive: true,
+  }) as string[]) {
+    // Skip the manifest, sidecars and files still being written
+    if (
+      relativePath === MANIFEST_FILENAME ||
+      relativePath.endsWith(".part") ||
+      relativePath.endsWith(".tmp") ||
+      !isIndexedFile(relativePath)
+    ) {
+      continue;
+    }
+
+    const filePath = join(dir, relativePath);
+    const stats = statSync(filePath);
+    if (!stats.isFile()) continue;
+
+    // Manifest paths always use forward slashes
+    const filename = relativePath.split(sep).join("/");
+    addExistingFile(index, filename, stats.size, recorded.get(filename));
+  }
+  return index;
+}
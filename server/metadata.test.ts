@@ -0,0 +1,47 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { embedCaptureDate, writeXmpSidecar } from "./metadata";
+import { getXmpSidecarPath } from "../src/sidecar";
+
+const dir = mkdtempSync(join(tmpdir(), "google-photos-sync-metadata-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+// Start of image, a 16 byte JFIF segment, end of image
+const JFIF_SEGMENT = [
+  0xff, 0xe0, 0, 16, 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0,
+];
+const JPEG = Uint8Array.from([0xff, 0xd8, ...JFIF_SEGMENT, 0xff, 0xd9]);
+
+describe("embedCaptureDate", () => {
+  test("adds an EXIF segment after the JFIF one", () => {
+    const path = join(dir, "photo.jpg");
+    writeFileSync(path, JPEG);
+
+    expect(embedCaptureDate(path, "2024-05-01T14:30:22Z")).toBe("embedded");
+    const jpeg = readFileSync(path);
+    const exifAt = 2 + JFIF_SEGMENT.length;
+    expect([jpeg[exifAt], jpeg[exifAt + 1]]).toEqual([0xff, 0xe1]);
+    expect(jpeg.toString("latin1")).toContain("2024:05:01 14:30:22");
+    expect(jpeg.subarray(-2)).toEqual(Buffer.from([0xff, 0xd9]));
+
+    // Once it's there the file is left alone
+    expect(embedCaptureDate(path, "2020-01-01T00:00:00Z")).toBe("present");
+  });
+
+  test("leaves files that aren't JPEGs alone", () => {
+    const path = join(dir, "photo.png");
+    writeFileSync(path, "PNG data");
+    expect(embedCaptureDate(path, "2024-05-01T14:30:22Z")).toBe("unsupported");
+    expect(readFileSync(path, "utf8")).toBe("PNG data");
+  });
+});
+
+test("writeXmpSidecar records the date next to the file", () => {
+  const path = join(dir, "photo.png");
+  writeXmpSidecar(path, "2024-05-01T14:30:22.123Z");
+  expect(readFileSync(getXmpSidecarPath(path), "utf8")).toContain(
+    'exif:DateTimeOriginal="2024-05-01T14:30:22Z"'
+  );
+});
@@ -0,0 +1,166 @@
+import { readFileSync, renameSync, writeFileSync } from "fs";
+import { createXmpSidecar, getXmpSidecarPath } from "../src/sidecar";
+
+// Resized downloads come back without the capture date that original (=d)
+// downloads keep, so it is written back from the media item's createTime.
+// JPEGs get an EXIF segment, other formats an XMP sidecar next to the file.
+
+export type CaptureDateResult =
+  | "embedded" // The file was rewritten with an EXIF segment
+  | "present" // The file already has EXIF metadata, it is left alone
+  | "unsupported"; // Not a JPEG, the date has to go in a sidecar
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+
+const EXIF_HEADER = new TextEncoder().encode("Exif\0\0");
+
+type IfdEntry = [tag: number, value: string | number];
+
+// An IFD at `offset` in the TIFF data, followed by the strings that don't fit
+// in their entry. Values are big-endian, entries must be sorted by tag.
+function encodeIfd(entries: IfdEntry[], offset: number): Uint8Array {
+  const strings = entries.map(([, value]) =>
+    typeof value === "string" ? new TextEncoder().encode(`${value}\0`) : null
+  );
+  const entriesLength = 2 + entries.length * 12 + 4;
+  const dataLength = strings.reduce(
+    (total, ascii) =>
+      ascii && ascii.length > 4
+        ? total + ascii.length + (ascii.length % 2)
+        : total,
+    0
+  );
+
+  const bytes = new Uint8Array(entriesLength + dataLength);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, entries.length);
+
+  let dataOffset = entriesLength;
+  entries.forEach(([tag, value], i) => {
+    const at = 2 + i * 12;
+    const ascii = strings[i];
+    view.setUint16(at, tag);
+    if (!ascii) {
+      view.setUint16(at + 2, TYPE_LONG);
+      view.setUint32(at + 4, 1);
+      view.setUint32(at + 8, value as number);
+    } else {
+      view.setUint16(at + 2, TYPE_ASCII);
+      view.setUint32(at + 4, ascii.length);
+      if (ascii.length <= 4) {
+        bytes.set(ascii, at + 8);
+      } else {
+        view.setUint32(at + 8, offset + dataOffset);
+        bytes.set(ascii, dataOffset);
+        dataOffset += ascii.length + (ascii.length % 2);
+      }
+    }
+  });
+  // The next IFD offset is left at 0, there is only one
+  return bytes;
+}
+
+// EXIF dates have no time zone, OffsetTimeOriginal says they are in UTC
+function encodeExif(takenAt: Date): Uint8Array {
+  const date = takenAt
+    .toISOString()
+    .slice(0, 19)
+    .replace(/-/g, ":")
+    .replace("T", " ");
+
+  const tiffHeader = new Uint8Array([0x4d, 0x4d, 0, 0x2a, 0, 0, 0, 8]);
+  const ifd0Length = encodeIfd(
+    [
+      [TAG_DATE_TIME, date],
+      [TAG_EXIF_IFD, 0],
+    ],
+    tiffHeader.length
+  ).length;
+  const exifIfdOffset = tiffHeader.length + ifd0Length;
+  const ifd0 = encodeIfd(
+    [
+      [TAG_DATE_TIME, date],
+      [TAG_EXIF_IFD, exifIfdOffset],
+    ],
+    tiffHeader.length
+  );
+  const exifIfd = encodeIfd(
+    [
+      [TAG_DATE_TIME_ORIGINAL, date],
+      [TAG_DATE_TIME_DIGITIZED, date],
+      [TAG_OFFSET_TIME_ORIGINAL, "+00:00"],
+    ],
+    exifIfdOffset
+  );
+
+  const segmentLength =
+    2 + EXIF_HEADER.length + tiffHeader.length + ifd0.length + exifIfd.length;
+  const segment = new Uint8Array(2 + segmentLength);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segmentLength);
+  let at = 4;
+  for (const part of [EXIF_HEADER, tiffHeader, ifd0, exifIfd]) {
+    segment.set(part, at);
+    at += part.length;
+  }
+  return segment;
+}
+
+function isExifSegment(jpeg: Uint8Array, at: number) {
+  return EXIF_HEADER.every((byte, i) => jpeg[at + 4 + i] === byte);
+}
+
+// Where the EXIF segment goes: after the JFIF segment if there is one, since
+// that has to come first. Null when the JPEG already has EXIF metadata.
+function findExifPosition(jpeg: Uint8Array): number | null {
+  let insertAt = 2;
+  let at = 2;
+  // APP0 to APP15 segments come straight after the start of image marker
+  while (jpeg[at] === 0xff && jpeg[at + 1] >= 0xe0 && jpeg[at + 1] <= 0xef) {
+    if (jpeg[at + 1] === 0xe1 && isExifSegment(jpeg, at)) return null;
+
+    const length = (jpeg[at + 2] << 8) | jpeg[at + 3];
+    if (jpeg[at + 1] === 0xe0 && at === 2) insertAt = at + 2 + length;
+    at += 2 + length;
+  }
+  return insertAt;
+}
+
+export function embedCaptureDate(
+  path: string,
+  createTime: string
+): CaptureDateResult {
+  const takenAt = new Date(createTime);
+  const jpeg = readFileSync(path);
+  if (isNaN(takenAt.getTime()) || jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+    return "unsupported";
+  }
+
+  const insertAt = findExifPosition(jpeg);
+  if (insertAt === null) return "present";
+
+  // Rewrite through a temporary file so a crash can't leave half a photo
+  writeFileSync(
+    `${path}.tmp`,
+    Buffer.concat([
+      jpeg.subarray(0, insertAt),
+      encodeExif(takenAt),
+      jpeg.subarray(insertAt),
+    ])
+  );
+  renameSync(`${path}.tmp`, path);
+  return "embedded";
+}
+
+export function writeXmpSidecar(path: string, createTime: string) {
+  const xmp = createXmpSidecar(createTime);
+  if (xmp) writeFileSync(getXmpSidecarPath(path), xmp);
+}
@@ -0,0 +1,25 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "path";
+import { resolveOutputFolder, setOutputDir } from "./output";
+
+describe("resolveOutputFolder", () => {
+  const outputDir = join("/srv", "photos");
+  setOutputDir(outputDir);
+
+  test("resolves folders inside the output directory", () => {
+    expect(resolveOutputFolder("")).toBe(outputDir);
+    expect(resolveOutputFolder("holidays/2024")).toBe(
+      join(outputDir, "holidays", "2024")
+    );
+    expect(resolveOutputFolder("..photos")).toBe(join(outputDir, "..photos"));
+    expect(resolveOutputFolder("a/../b")).toBe(join(outputDir, "b"));
+  });
+
+  test("refuses folders outside it", () => {
+    for (const folder of ["..", "../other", "a/../../other", "/tmp"]) {
+      expect(() => resolveOutputFolder(folder)).toThrow(
+        "Output folder must be inside the server output directory"
+      );
+    }
+  });
+});
@@ -0,0 +1,33 @@
+import { isAbsolute, relative, resolve, sep } from "path";
+
+// Where jobs can write files directly instead of sending them to the browser
+let outputDir: string | null = process.env.OUTPUT_DIR
+  ? resolve(process.env.OUTPUT_DIR)
+  : null;
+
+export function getOutputDir(): string | null {
+  return outputDir;
+}
+
+export function setOutputDir(dir: string) {
+  outputDir = resolve(dir);
+}
+
+// Resolve a client's output folder, refusing anything outside the server output directory
+export function resolveOutputFolder(folder: string): string {
+  if (!outputDir) {
+    throw new Error("The server has no output directory configured");
+  }
+
+  const folderPath = resolve(outputDir, folder);
+  const relativePath = relative(outputDir, folderPath);
+  // Names that only start with two dots, like ..photos, are still inside
+  if (
+    relativePath === ".." ||
+    relativePath.startsWith(".." + sep) ||
+    isAbsolute(relativePath)
+  ) {
+    throw new Error("Output folder must be inside the server output directory");
+  }
+  return folderPath;
+}
@@ -0,0 +1,139 @@
+import { existsSync } from "fs";
+import { join } from "path";
+import {
+  PICKER_API,
+  createPickerSession,
+  fetchPickedMediaItems,
+  waitForPicking,
+} from "../src/PickerService";
+import { planTargetPaths } from "../src/naming";
+import type { CliOptions } from "./cli";
+import {
+  cancelJob,
+  downloadProgress,
+  jobControls,
+  processDownloads,
+  removeJob,
+  subscribeToJob,
+} from "./jobs";
+import { readManifest } from "./manifest";
+
+// Headless sync: pick photos on any device, then download them straight to
+// the output directory. Returns the exit code, errors are reported here.
+export async function runSync(options: CliOptions): Promise<number> {
+  try {
+    return await syncSelection(options);
+  } catch (error) {
+    console.error(
+      `❌ Sync failed: ${error instanceof Error ? error.message : error}`
+    );
+    return 1;
+  }
+}
+
+async function syncSelection({
+  oauthToken,
+  outputDir = process.cwd(),
+  downloadSettings,
+}: CliOptions): Promise<number> {
+  if (!oauthToken) {
+    console.error(
+      "❌ sync needs an OAuth access token, pass --token or set GOOGLE_OAUTH_TOKEN"
+    );
+    return 1;
+  }
+
+  const { pickerUri, sessionId } = await createPickerSession({ oauthToken });
+  console.log("📸 Open this link on any device and pick the photos to sync:");
+  console.log(`   ${pickerUri}`);
+
+  const picked = await waitForPicking(() =>
+    fetch(`${PICKER_API}/sessions/${sessionId}`, {
+      headers: { Authorization: `Bearer ${oauthToken}` },
+    })
+  );
+  if (!picked) {
+    console.error("⌛ Timed out waiting for photos to be picked");
+    return 1;
+  }
+
+  const pickedItems = await fetchPickedMediaItems({ oauthToken, sessionId });
+
+  // Same filtering as the web app: names are planned over the whole selection,
+  // then media type settings and files that already exist are filtered out
+  const { items: plannedItems, skipped } = planTargetPaths(
+    pickedItems,
+    downloadSettings,
+    readManifest(outputDir)
+  );
+  if (skipped.length > 0) {
+    console.log(
+      `🔀 Skipping ${skipped.length} files that share a name with another photo`
+    );
+  }
+
+  const wantedItems = plannedItems.filter((item) =>
+    item.type === "VIDEO"
+      ? downloadSettings.includeVideos
+      : downloadSettings.includePhotos
+  );
+  const mediaItems = wantedItems.filter(
+    (item) => !item.targetPath || !existsSync(join(outputDir, item.targetPath))
+  );
+  console.log(
+    `📂 ${mediaItems.length} files to download to ${outputDir} (${
+      wantedItems.length - mediaItems.length
+    } already exist)`
+  );
+  if (mediaItems.length === 0) return 0;
+
+  const progressId = `sync-${Date.now()}`;
+  const unsubscribe = subscribeToJob(progressId, (event) => {
+    if (event.type === "item-completed" && event.file.duplicateOf) {
+      console.log(
+        `♻️ ${event.file.filename} is already saved as ${event.file.duplicateOf}`
+      );
+    } else if (event.type === "item-completed") {
+      console.log(
+        `✅ ${event.file.filename} (${(event.file.size / 1024 / 1024).toFixed(
+          1
+        )} MB)`
+      );
+    } else if (event.type === "item-failed") {
+      console.error(`❌ ${event.failure.filename}: ${event.failure.message}`);
+    }
+  });
+
+  // Ctrl+C stops the sync, files that already finished are kept
+  const handleInterrupt = () => {
+    const control = jobControls.get(progressId);
+    if (control) cancelJob(control);
+  };
+  process.once("SIGINT", handleInterrupt);
+
+  await processDownloads(
+    {
+      oauthToken,
+      sessionId,
+      mediaItems,
+      downloadSettings,
+      timestamp: new Date().toISOString(),
+      outputDir,
+    },
+    progressId
+  );
+
+  process.off("SIGINT", handleInterrupt);
+  unsubscribe();
+
+  const progress = downloadProgress.get(progressId);
+  removeJob(progressId);
+  if (!progress) return 1;
+
+  console.log(
+    `${
+      progress.status === "cancelled" ? "⏹️ Sync cancelled" : "🎉 Sync complete"
+    }: ${progress.downloaded} downloaded, ${progress.failed} failed`
+  );
+  return progress.status === "complete" && progress.failed === 0 ? 0 : 1;
+}
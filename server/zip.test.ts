@@ -0,0 +1,68 @@
+import { afterAll, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createZipStream } from "./zip";
+
+const dir = mkdtempSync(join(tmpdir(), "google-photos-sync-zip-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+// Reads the names, CRCs and sizes back out of the central directory
+function readCentralDirectory(zip: Uint8Array) {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(at + 28, true);
+    const extraLength = view.getUint16(at + 30, true);
+    const commentLength = view.getUint16(at + 32, true);
+    entries.push({
+      name: new TextDecoder().decode(
+        zip.subarray(at + 46, at + 46 + nameLength)
+      ),
+      crc32: view.getUint32(at + 16, true),
+      size: view.getUint32(at + 24, true),
+    });
+    at += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+test("createZipStream stores every file with its name and checksum", async () => {
+  const photo = join(dir, "photo.jpg");
+  const video = join(dir, "video.mp4");
+  writeFileSync(photo, "photo bytes");
+  writeFileSync(video, Buffer.alloc(100_000, 7));
+
+  let completed = false;
+  const zip = new Uint8Array(
+    await new Response(
+      createZipStream(
+        [
+          { name: "2024/photo.jpg", path: photo },
+          { name: "vidéo.mp4", path: video },
+        ],
+        () => (completed = true)
+      )
+    ).arrayBuffer()
+  );
+
+  expect(readCentralDirectory(zip)).toEqual([
+    {
+      name: "2024/photo.jpg",
+      crc32: Bun.hash.crc32("photo bytes"),
+      size: 11,
+    },
+    {
+      name: "vidéo.mp4",
+      crc32: Bun.hash.crc32(Buffer.alloc(100_000, 7)),
+      size: 100_000,
+    },
+  ]);
+  expect(completed).toBe(true);
+});
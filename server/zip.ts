@@ -0,0 +1,245 @@
+import { statSync } from "fs";
+import { file } from "bun";
+
+// Streams a ZIP archive of files on disk without holding them in memory.
+// Photos and videos are already compressed, so entries are stored as they
+// are. Archives and files past 4 GB switch to ZIP64.
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, separated by /
+  path: string; // The file on disk, its modification time is kept
+}
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+// Sizes and CRC follow the data (bit 3), names are UTF-8 (bit 11)
+const FLAGS = 0x0808;
+const VERSION = 20;
+const VERSION_ZIP64 = 45;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function updateCrc32(crc: number, data: Uint8Array): number {
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+}
+
+// Little-endian fields of 1, 2, 4 or 8 bytes
+type Field = [bytes: 1 | 2 | 4 | 8, value: number];
+
+function encode(fields: Field[]): Uint8Array {
+  const bytes = new Uint8Array(fields.reduce((total, [n]) => total + n, 0));
+  const view = new DataView(bytes.buffer);
+  let at = 0;
+  for (const [n, value] of fields) {
+    if (n === 1) view.setUint8(at, value);
+    if (n === 2) view.setUint16(at, value, true);
+    if (n === 4) view.setUint32(at, value >>> 0, true);
+    if (n === 8) view.setBigUint64(at, BigInt(value), true);
+    at += n;
+  }
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((total, p) => total + p.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    bytes.set(part, at);
+    at += part.length;
+  }
+  return bytes;
+}
+
+// MS-DOS times are local and can't go before 1980
+function dosDateTime(date: Date): [time: number, date: number] {
+  const year = Math.max(date.getFullYear(), 1980);
+  return [
+    (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      (date.getSeconds() >> 1),
+    ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  ];
+}
+
+// The extended timestamp field carries the exact time in UTC
+function timestampField(date: Date): Field[] {
+  return [
+    [2, 0x5455],
+    [2, 5],
+    [1, 1],
+    [4, Math.floor(date.getTime() / 1000)],
+  ];
+}
+
+async function* zipChunks(entries: ZipEntry[]): AsyncGenerator<Uint8Array> {
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const { size, mtime } = statSync(entry.path);
+    const name = new TextEncoder().encode(entry.name);
+    const zip64 = size >= MAX_32 || offset >= MAX_32;
+    const version = zip64 ? VERSION_ZIP64 : VERSION;
+    const [dosTime, dosDate] = dosDateTime(mtime);
+
+    const localExtra = encode([
+      ...timestampField(mtime),
+      ...(zip64
+        ? ([
+            [2, 0x0001],
+            [2, 16],
+            [8, 0],
+            [8, 0],
+          ] as Field[])
+        : []),
+    ]);
+    const localHeader = concat([
+      encode([
+        [4, 0x04034b50],
+        [2, version],
+        [2, FLAGS],
+        [2, 0], // Stored
+        [2, dosTime],
+        [2, dosDate],
+        [4, 0],
+        [4, zip64 ? MAX_32 : 0],
+        [4, zip64 ? MAX_32 : 0],
+        [2, name.length],
+        [2, localExtra.length],
+      ]),
+      name,
+      localExtra,
+    ]);
+    yield localHeader;
+
+    let crc = MAX_32;
+    let written = 0;
+    const reader = file(entry.path).stream().getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      crc = updateCrc32(crc, value);
+      written += value.length;
+      yield value;
+    }
+    crc = (crc ^ MAX_32) >>> 0;
+
+    yield encode([
+      [4, 0x08074b50],
+      [4, crc],
+      [zip64 ? 8 : 4, written],
+      [zip64 ? 8 : 4, written],
+    ]);
+
+    const centralExtra = encode([
+      ...timestampField(mtime),
+      ...(zip64
+        ? ([
+            [2, 0x0001],
+            [2, 24],
+            [8, written],
+            [8, written],
+            [8, offset],
+          ] as Field[])
+        : []),
+    ]);
+    centralDirectory.push(
+      concat([
+        encode([
+          [4, 0x02014b50],
+          [2, version], // Made by
+          [2, version],
+          [2, FLAGS],
+          [2, 0],
+          [2, dosTime],
+          [2, dosDate],
+          [4, crc],
+          [4, zip64 ? MAX_32 : written],
+          [4, zip64 ? MAX_32 : written],
+          [2, name.length],
+          [2, centralExtra.length],
+          [2, 0], // Comment
+          [2, 0], // Disk
+          [2, 0], // Internal attributes
+          [4, 0], // External attributes
+          [4, zip64 ? MAX_32 : offset],
+        ]),
+        name,
+        centralExtra,
+      ])
+    );
+
+    offset += localHeader.length + written + (zip64 ? 24 : 16);
+  }
+
+  const centralOffset = offset;
+  let centralSize = 0;
+  for (const record of centralDirectory) {
+    centralSize += record.length;
+    yield record;
+  }
+
+  const count = entries.length;
+  if (count >= MAX_16 || centralOffset >= MAX_32 || centralSize >= MAX_32) {
+    yield encode([
+      [4, 0x06064b50],
+      [8, 44],
+      [2, VERSION_ZIP64],
+      [2, VERSION_ZIP64],
+      [4, 0],
+      [4, 0],
+      [8, count],
+      [8, count],
+      [8, centralSize],
+      [8, centralOffset],
+    ]);
+    yield encode([
+      [4, 0x07064b50],
+      [4, 0],
+      [8, centralOffset + centralSize],
+      [4, 1],
+    ]);
+  }
+
+  yield encode([
+    [4, 0x06054b50],
+    [2, 0],
+    [2, 0],
+    [2, Math.min(count, MAX_16)],
+    [2, Math.min(count, MAX_16)],
+    [4, Math.min(centralSize, MAX_32)],
+    [4, Math.min(centralOffset, MAX_32)],
+    [2, 0],
+  ]);
+}
+
+// onComplete runs once the whole archive has been read
+export function createZipStream(
+  entries: ZipEntry[],
+  onComplete?: () => void
+): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries);
+  return new ReadableStream({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        controller.close();
+        onComplete?.();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { GoogleAuthProvider } from "./GoogleAuthProvider";
 import { useAuth } from "./GoogleAuthProvider";
 import AuthButton from "./AuthButton";
@@ -6,23 +6,37 @@ import PhotoSelector from "./PhotoSelector";
 import DirectorySelector from "./DirectorySelector";
 import DownloadSettings from "./DownloadSettings";
 import DownloadManager from "./DownloadManager";
+import ProfileBar from "./ProfileBar";
+import {
+  canSaveToDirectory,
+  describeMissingCapabilities,
+  detectBrowserCapabilities,
+} from "./capabilities";
 import type {
+  ContentIndex,
   MediaItem,
   DownloadSettings as DownloadSettingsType,
+  DestinationSettings,
+  SaveDestination,
+  SyncProfile,
 } from "./types";
 
 function AppContent() {
-  const { isSignedIn } = useAuth();
+  const { isSignedIn, oauthToken, tokenStatus, renewToken } = useAuth();
+  // Checked up front, so nobody finds out on step 3 that their browser can't save files
+  const [capabilities] = useState(detectBrowserCapabilities);
   const [selectedPhotos, setSelectedPhotos] = useState<{
     mediaItems: MediaItem[];
-    oauthToken: string;
+    oauthToken: string | null;
     sessionId: string;
   } | null>(null);
 
   const [directoryInfo, setDirectoryInfo] = useState<{
-    directory: FileSystemDirectoryHandle;
+    destination: SaveDestination;
     filteredItems: MediaItem[];
     existingCount: number;
+    destinationSettings: DestinationSettings;
+    contentIndex: ContentIndex;
   } | null>(null);
 
   const [downloadSettings, setDownloadSettings] = useState<{
@@ -30,6 +44,12 @@ function AppContent() {
     filteredItems: MediaItem[];
   } | null>(null);
 
+  const [activeProfile, setActiveProfile] = useState<SyncProfile | null>(null);
+  // Applied by step 3 once it is showing, then cleared
+  const [profileToApply, setProfileToApply] = useState<SyncProfile | null>(
+    null
+  );
+
   const [downloadComplete, setDownloadComplete] = useState(false);
   const [isDownloadActive, setIsDownloadActive] = useState(false);
   const [baseUrlTimer, setBaseUrlTimer] = useState<{
@@ -89,7 +109,7 @@ function AppContent() {
 
   const handlePhotosSelected = (
     mediaItems: MediaItem[],
-    oauthToken: string,
+    oauthToken: string | null,
     sessionId: string
   ) => {
     setSelectedPhotos({ mediaItems, oauthToken, sessionId });
@@ -106,11 +126,19 @@ function AppContent() {
   };
 
   const handleDirectorySelected = (
-    directory: FileSystemDirectoryHandle,
+    destination: SaveDestination,
     filteredItems: MediaItem[],
-    existingCount: number
+    existingCount: number,
+    destinationSettings: DestinationSettings,
+    contentIndex: ContentIndex
   ) => {
-    setDirectoryInfo({ directory, filteredItems, existingCount });
+    setDirectoryInfo({
+      destination,
+      filteredItems,
+      existingCount,
+      destinationSettings,
+      contentIndex,
+    });
     // Reset download settings and completion when new directory is selected
     setDownloadSettings(null);
     setDownloadComplete(false);
@@ -122,13 +150,29 @@ function AppContent() {
     settings: DownloadSettingsType,
     filteredItems: MediaItem[]
   ) => {
-    setDownloadSettings({ settings, filteredItems });
+    // These were chosen with the directory, the server needs them too
+    setDownloadSettings({
+      settings: { ...settings, ...directoryInfo?.destinationSettings },
+      filteredItems,
+    });
     // Reset download completion when new settings are applied
     setDownloadComplete(false);
     // Navigate to step 5 (download)
     setCurrentStep(5);
   };
 
+  const handleProfileSelected = (profile: SyncProfile | null) => {
+    setActiveProfile(profile);
+    if (!profile || profile.id === activeProfile?.id) return;
+
+    // Start again from step 3 with the profile's destination and settings
+    setProfileToApply(profile);
+    setDirectoryInfo(null);
+    setDownloadSettings(null);
+    setDownloadComplete(false);
+    setCurrentStep(3);
+  };
+
   const handleDownloadSettingsCancel = () => {
     // Don't change anything, just stay on settings step
     // User can modify directory or settings again
@@ -150,20 +194,13 @@ function AppContent() {
   const step5Complete = downloadComplete;
 
   // Determine which step is currently active
-  const getCurrentStep = () => {
+  const getCurrentStep = useCallback(() => {
     if (!step1Complete) return 1;
     if (!step2Complete) return 2;
     if (!step3Complete) return 3;
     if (!step4Complete) return 4;
     if (!step5Complete) return 5;
     return 5; // If all complete, show final step
-  };
-
-  const [currentStep, setCurrentStep] = useState(getCurrentStep());
-
-  // Update current step when progress changes
-  useEffect(() => {
-    setCurrentStep(getCurrentStep());
   }, [
     step1Complete,
     step2Complete,
@@ -172,6 +209,13 @@ function AppContent() {
     step5Complete,
   ]);
 
+  const [currentStep, setCurrentStep] = useState(getCurrentStep());
+
+  // Update current step when progress changes
+  useEffect(() => {
+    setCurrentStep(getCurrentStep());
+  }, [getCurrentStep]);
+
   // Navigation logic - can always go back, can only go forward to available steps
   const canNavigateToStep = (stepNumber: number) => {
     if (stepNumber === 1) return true; // Always can go to step 1
@@ -255,6 +299,40 @@ function AppContent() {
             </p>
           </div>
 
+          {/* Browser Support Banner - Shows when files can't be saved into a directory */}
+          {!canSaveToDirectory(capabilities) && (
+            <div
+              style={{
+                width: "100%",
+                maxWidth: "600px",
+                marginBottom: 15,
+                padding: "12px 16px",
+                border: "2px solid #2196f3",
+                borderRadius: "8px",
+                backgroundColor: "#fff",
+                boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+                textAlign: "center",
+                fontSize: "14px",
+                color: "#666",
+              }}
+            >
+              <div
+                style={{
+                  fontWeight: "bold",
+                  color: "#333",
+                  marginBottom: "4px",
+                }}
+              >
+                🗜️ Your photos will be downloaded as a ZIP file
+              </div>
+              This browser doesn't support{" "}
+              {describeMissingCapabilities(capabilities)}, so it can't save
+              straight into a folder on your computer. Every step still works,
+              step 3 offers a ZIP download instead. Use Chrome or Edge to sync
+              into a folder.
+            </div>
+          )}
+
           {/* Base URL Timer Banner - Shows for Steps 3 & 4 */}
           {baseUrlTimer && selectedPhotos && (
             <div
@@ -326,6 +404,57 @@ function AppContent() {
             </div>
           )}
 
+          {/* Sign-in Expiry Banner - Shows when the Google token needs renewing */}
+          {isSignedIn && tokenStatus !== "valid" && (
+            <div
+              style={{
+                width: "100%",
+                maxWidth: "600px",
+                marginBottom: 15,
+                padding: "12px 16px",
+                border: "2px solid #f44336",
+                borderRadius: "8px",
+                backgroundColor: "#fff",
+                boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+                textAlign: "center",
+                fontSize: "14px",
+                color: "#666",
+              }}
+            >
+              <div
+                style={{
+                  fontWeight: "bold",
+                  color: "#333",
+                  marginBottom: "4px",
+                }}
+              >
+                {tokenStatus === "expiring"
+                  ? "🔑 Your Google sign-in expires in a few minutes"
+                  : "🔑 Your Google sign-in has expired"}
+              </div>
+              <div style={{ marginBottom: "8px" }}>
+                Renewing it takes a click, files fail with a sign-in error once
+                it expires. Running downloads pick up the new sign-in straight
+                away.
+              </div>
+              <button
+                onClick={renewToken}
+                style={{
+                  padding: "8px 16px",
+                  fontSize: "14px",
+                  fontWeight: "bold",
+                  color: "white",
+                  backgroundColor: "#4285f4",
+                  border: "none",
+                  borderRadius: "6px",
+                  cursor: "pointer",
+                }}
+              >
+                🔄 Stay signed in
+              </button>
+            </div>
+          )}
+
           {/* Progress indicator */}
           <div
             style={{
@@ -434,6 +563,25 @@ function AppContent() {
             </div>
           </div>
 
+          {/* Sync Profiles - Shows once photos are selected */}
+          {selectedPhotos && currentStep >= 3 && (
+            <ProfileBar
+              activeProfile={activeProfile}
+              currentSetup={
+                directoryInfo && downloadSettings
+                  ? {
+                      destination: directoryInfo.destination,
+                      destinationSettings: directoryInfo.destinationSettings,
+                      downloadSettings: downloadSettings.settings,
+                    }
+                  : null
+              }
+              onProfileSelected={handleProfileSelected}
+              onProfileSaved={setActiveProfile}
+              disabled={isDownloadActive}
+            />
+          )}
+
           {/* Current Step Container */}
           <div
             style={{
@@ -460,6 +608,9 @@ function AppContent() {
             {currentStep === 3 && (
               <DirectorySelector
                 mediaItems={selectedPhotos?.mediaItems || []}
+                capabilities={capabilities}
+                profile={profileToApply}
+                onProfileApplied={() => setProfileToApply(null)}
                 onDirectorySelected={handleDirectorySelected}
                 disabled={!selectedPhotos}
               />
@@ -469,9 +620,11 @@ function AppContent() {
               <>
                 {directoryInfo ? (
                   <DownloadSettings
+                    key={activeProfile?.id ?? "defaults"}
                     mediaItems={directoryInfo.filteredItems}
                     originalMediaItems={selectedPhotos?.mediaItems || []}
                     existingCount={directoryInfo.existingCount}
+                    initialSettings={activeProfile?.downloadSettings}
                     onSettingsConfirmed={handleDownloadSettingsConfirmed}
                     onCancel={handleDownloadSettingsCancel}
                     disabled={!directoryInfo}
@@ -508,10 +661,11 @@ function AppContent() {
                   <DownloadManager
                     mediaItems={downloadSettings.filteredItems}
                     downloadSettings={downloadSettings.settings}
-                    oauthToken={selectedPhotos!.oauthToken}
+                    oauthToken={oauthToken ?? selectedPhotos!.oauthToken}
                     sessionId={selectedPhotos!.sessionId}
-                    selectedDirectory={directoryInfo.directory}
+                    destination={directoryInfo.destination}
                     existingCount={directoryInfo.existingCount}
+                    contentIndex={directoryInfo.contentIndex}
                     onDownloadComplete={handleDownloadComplete}
                     onDownloadStatusChange={handleDownloadStatusChange}
                   />
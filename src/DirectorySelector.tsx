@@ -1,83 +1,356 @@
-import { useState, useEffect } from "react";
-import { getDirectoryHandle } from "./FileService";
+import { useState, useEffect, useRef } from "react";
+import {
+  canSaveToDirectory,
+  describeMissingCapabilities,
+} from "./capabilities";
+import type { BrowserCapabilities } from "./capabilities";
+import { createContentIndex } from "./contentIndex";
+import {
+  forgetDirectory,
+  getDestinationName,
+  getDirectoryHandle,
+  getFileHandleAtPath,
+  indexDirectoryContent,
+  listRecentDirectories,
+  readDirectoryManifest,
+  rememberDirectory,
+  verifyDirectoryAccess,
+} from "./FileService";
+import { emptyManifest } from "./manifest";
+import {
+  DEFAULT_COLLISION_STRATEGY,
+  FOLDER_TEMPLATE_PRESETS,
+  RENAME_TEMPLATE_PRESETS,
+  planTargetPaths,
+  validateFolderTemplate,
+  validateRenameTemplate,
+} from "./naming";
+import { validateProfileTemplates } from "./profiles";
+import type {
+  CollisionStrategy,
+  ContentIndex,
+  DestinationSettings,
+  RecentDirectory,
+  SaveDestination,
+  SyncManifest,
+  SyncProfile,
+} from "./types";
+
+// Naming options are typed a character at a time, wait for a pause before
+// checking the destination again
+const SETTINGS_CHECK_DELAY_MS = 400;
 
 interface DirectorySelectorProps {
   mediaItems: any[];
+  capabilities: BrowserCapabilities;
+  profile?: SyncProfile | null; // A profile to apply, cleared with onProfileApplied
   disabled?: boolean;
+  onProfileApplied?: () => void;
   onDirectorySelected: (
-    directory: FileSystemDirectoryHandle,
+    destination: SaveDestination,
     filteredItems: any[],
-    existingCount: number
+    existingCount: number,
+    destinationSettings: DestinationSettings,
+    contentIndex: ContentIndex // Empty unless the browser should skip duplicate content
   ) => void;
 }
 
+// The destination's sync manifest, or an empty one if it can't be read
+async function readDestinationManifest(
+  destination: SaveDestination
+): Promise<SyncManifest> {
+  // A new archive has nothing in it yet
+  if (destination.kind === "archive") return emptyManifest();
+
+  try {
+    if (destination.kind === "server") {
+      const response = await fetch(
+        `/api/output/manifest?folder=${encodeURIComponent(destination.folder)}`
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to read the server folder");
+      }
+      return result;
+    }
+    return await readDirectoryManifest(destination.directory);
+  } catch (error) {
+    console.warn("Could not read the sync manifest:", error);
+    return emptyManifest();
+  }
+}
+
+// Find which of the filenames are already in the destination
+async function findExistingFiles(
+  destination: SaveDestination,
+  filenames: string[]
+): Promise<Set<string>> {
+  if (destination.kind === "archive") return new Set();
+
+  if (destination.kind === "server") {
+    const response = await fetch("/api/output/existing", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ folder: destination.folder, filenames }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || "Failed to check the server folder");
+    }
+    return new Set(result.existing);
+  }
+
+  const existing = new Set<string>();
+  for (const filename of filenames) {
+    try {
+      // Try to get the file handle - if it exists, this won't throw
+      await getFileHandleAtPath(destination.directory, filename, {
+        create: false,
+      });
+      existing.add(filename);
+    } catch {
+      // File doesn't exist, it will be downloaded
+    }
+  }
+  return existing;
+}
+
+// Where a profile saves to in this browser, or why it can't be used
+async function resolveProfileDestination(
+  profile: SyncProfile,
+  serverOutputDir: string | null,
+  capabilities: BrowserCapabilities
+): Promise<SaveDestination | string> {
+  const saved = profile.destination;
+  if (!saved) return `Choose where ${profile.name} saves your photos.`;
+  if (saved.kind === "archive") return saved;
+
+  if (saved.kind === "server") {
+    if (!serverOutputDir) {
+      return `${profile.name} saves on the server, but this server doesn't save files itself. Choose another destination.`;
+    }
+    // The output directory may have moved since the profile was saved
+    return {
+      kind: "server",
+      folder: saved.folder,
+      path: saved.folder
+        ? `${serverOutputDir}/${saved.folder}`
+        : serverOutputDir,
+    };
+  }
+
+  const name = saved.directory.name;
+  if (!canSaveToDirectory(capabilities)) {
+    return `${profile.name} saves into ${name}, which this browser can't do. Download a ZIP archive instead.`;
+  }
+  try {
+    const access = await verifyDirectoryAccess(saved.directory);
+    if (access === "missing") {
+      return `Error: ${name} no longer exists. Choose a new directory for ${profile.name}.`;
+    }
+    if (access === "denied") {
+      return `Permission denied. Please allow write access to ${name} to save into it.`;
+    }
+    return saved;
+  } catch (error) {
+    console.error("Profile directory error:", error);
+    return `Error opening ${name}: ${error}`;
+  }
+}
+
 export default function DirectorySelector({
   mediaItems,
+  capabilities,
+  profile,
   disabled,
+  onProfileApplied,
   onDirectorySelected,
 }: DirectorySelectorProps) {
-  const [selectedDirectory, setSelectedDirectory] =
-    useState<FileSystemDirectoryHandle | null>(null);
+  const [destination, setDestination] = useState<SaveDestination | null>(null);
+  const [serverOutputDir, setServerOutputDir] = useState<string | null>(null);
+  const [configLoaded, setConfigLoaded] = useState(false);
+  const [serverFolder, setServerFolder] = useState("");
   const [status, setStatus] = useState("");
   const [existingFiles, setExistingFiles] = useState<Set<string>>(new Set());
   const [filteredMediaItems, setFilteredMediaItems] = useState<any[]>([]);
   const [isCheckingFiles, setIsCheckingFiles] = useState(false);
+  const [destinationSettings, setDestinationSettings] =
+    useState<DestinationSettings>({
+      collisionStrategy: DEFAULT_COLLISION_STRATEGY,
+    });
+  const [checkedSettings, setCheckedSettings] = useState(destinationSettings);
+  const [skippedCount, setSkippedCount] = useState(0);
+  const [recentDirectories, setRecentDirectories] = useState<RecentDirectory[]>(
+    []
+  );
+  // Only the latest check may report, an earlier slow one is ignored
+  const checkRunRef = useRef(0);
+
+  const loadRecentDirectories = () =>
+    listRecentDirectories()
+      .then(setRecentDirectories)
+      .catch((error) =>
+        console.warn("Could not load recent directories:", error)
+      );
+
+  // Directories picked before can be picked again without the picker
+  useEffect(() => {
+    if (canSaveToDirectory(capabilities)) loadRecentDirectories();
+  }, [capabilities]);
+
+  // Find out whether the server can save files itself
+  useEffect(() => {
+    fetch("/api/config")
+      .then((response) => response.json())
+      .then((config) => setServerOutputDir(config.outputDir))
+      .catch((error) => console.warn("Could not load server config:", error))
+      .finally(() => setConfigLoaded(true));
+  }, []);
+
+  // A profile brings its own naming options and destination. It waits for the
+  // server config, which says whether server folders can be used.
+  useEffect(() => {
+    if (!profile || !configLoaded) return;
+
+    onProfileApplied?.();
+    const templateError = validateProfileTemplates(profile.destinationSettings);
+    if (templateError) {
+      setStatus(`${profile.name} can't be used. ${templateError}`);
+      return;
+    }
+    setDestinationSettings({
+      collisionStrategy: DEFAULT_COLLISION_STRATEGY,
+      ...profile.destinationSettings,
+    });
+    if (profile.destination?.kind === "server") {
+      setServerFolder(profile.destination.folder);
+    }
+    resolveProfileDestination(profile, serverOutputDir, capabilities).then(
+      (resolved) => {
+        if (typeof resolved === "string") {
+          setDestination(null);
+          setStatus(resolved);
+        } else {
+          setDestination(resolved);
+          // Status will be set by checkExistingFiles
+        }
+      }
+    );
+  }, [profile, configLoaded, serverOutputDir, capabilities, onProfileApplied]);
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setCheckedSettings(destinationSettings),
+      SETTINGS_CHECK_DELAY_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [destinationSettings]);
 
   // Check for existing files when directory is selected
   useEffect(() => {
-    if (selectedDirectory) {
+    if (destination) {
       checkExistingFiles();
     }
-  }, [selectedDirectory, mediaItems]);
+  }, [destination, mediaItems, checkedSettings]);
 
   const checkExistingFiles = async () => {
-    if (!selectedDirectory) return;
+    if (!destination) return;
 
+    const run = ++checkRunRef.current;
+    const isLatestRun = () => run === checkRunRef.current;
     setIsCheckingFiles(true);
     setStatus("Checking for existing files...");
 
     try {
-      const existing = new Set<string>();
-      const filesToDownload: any[] = [];
-
-      for (const item of mediaItems) {
-        const filename = item.mediaFile?.filename;
-        if (!filename) continue;
-
-        try {
-          // Try to get the file handle - if it exists, this won't throw
-          await selectedDirectory.getFileHandle(filename, { create: false });
-          existing.add(filename);
-        } catch (error) {
-          // File doesn't exist, add to download list
-          filesToDownload.push(item);
-        }
+      // Plan the names first, so a clashing photo isn't mistaken for one
+      // that was already downloaded. Photos the manifest knows about are
+      // looked for under the name they were saved as.
+      const manifest = await readDestinationManifest(destination);
+      if (!isLatestRun()) return;
+      const { items: plannedItems, skipped } = planTargetPaths(
+        mediaItems,
+        checkedSettings,
+        manifest
+      );
+      const targetPaths = plannedItems
+        .map((item) => item.targetPath)
+        .filter(Boolean) as string[];
+      const existing = await findExistingFiles(destination, targetPaths);
+      if (!isLatestRun()) return;
+      const filesToDownload = plannedItems.filter(
+        (item) => item.targetPath && !existing.has(item.targetPath)
+      );
+
+      // The server spots duplicates in its own folders as it downloads
+      let contentIndex: ContentIndex = createContentIndex();
+      if (
+        checkedSettings.skipDuplicateContent &&
+        destination.kind === "browser"
+      ) {
+        setStatus("Listing existing files to spot duplicates...");
+        contentIndex = await indexDirectoryContent(
+          destination.directory,
+          manifest,
+          (count) => {
+            if (!isLatestRun()) return;
+            setStatus(
+              `Listing existing files to spot duplicates... (${count} found)`
+            );
+          }
+        );
+        if (!isLatestRun()) return;
       }
 
       setExistingFiles(existing);
       setFilteredMediaItems(filesToDownload);
+      setSkippedCount(skipped.length);
 
-      if (existing.size > 0) {
+      if (destination.kind === "archive") {
         setStatus(
-          `✅ Directory selected: ${selectedDirectory.name}. Found ${existing.size} existing files, ${filesToDownload.length} new files to download.`
+          `✅ ${filesToDownload.length} files will be downloaded as a ZIP archive.`
+        );
+      } else if (existing.size > 0) {
+        setStatus(
+          `✅ Directory selected: ${getDestinationName(destination)}. Found ${
+            existing.size
+          } existing files, ${filesToDownload.length} new files to download.`
         );
       } else {
         setStatus(
-          `✅ Directory selected: ${selectedDirectory.name}. ${filesToDownload.length} files to download.`
+          `✅ Directory selected: ${getDestinationName(destination)}. ${
+            filesToDownload.length
+          } files to download.`
         );
       }
 
       // Notify parent component
-      onDirectorySelected(selectedDirectory, filesToDownload, existing.size);
+      onDirectorySelected(
+        destination,
+        filesToDownload,
+        existing.size,
+        checkedSettings,
+        contentIndex
+      );
     } catch (error) {
+      if (!isLatestRun()) return;
       console.error("Error checking existing files:", error);
       setStatus(
         `⚠️ Could not check existing files. All ${mediaItems.length} files will be processed.`
       );
-      setFilteredMediaItems(mediaItems);
-      onDirectorySelected(selectedDirectory, mediaItems, 0);
+      const { items: plannedItems } = planTargetPaths(
+        mediaItems,
+        checkedSettings
+      );
+      setFilteredMediaItems(plannedItems);
+      onDirectorySelected(
+        destination,
+        plannedItems,
+        0,
+        checkedSettings,
+        createContentIndex()
+      );
     } finally {
-      setIsCheckingFiles(false);
+      if (isLatestRun()) setIsCheckingFiles(false);
     }
   };
 
@@ -102,7 +375,8 @@ export default function DirectorySelector({
         // Continue anyway, will request per-file permissions
       }
 
-      setSelectedDirectory(directoryHandle);
+      setDestination({ kind: "browser", directory: directoryHandle });
+      loadRecentDirectories();
       // Status will be set by checkExistingFiles
     } catch (error) {
       if (error instanceof Error && error.name === "AbortError") {
@@ -114,6 +388,72 @@ export default function DirectorySelector({
     }
   };
 
+  const handleSelectRecentDirectory = async (recent: RecentDirectory) => {
+    try {
+      const access = await verifyDirectoryAccess(recent.handle);
+      if (access === "missing") {
+        setStatus(
+          `Error: ${recent.label} no longer exists, so it was removed from your recent directories.`
+        );
+        await forgetDirectory(recent.id);
+        loadRecentDirectories();
+        return;
+      }
+      if (access === "denied") {
+        setStatus(
+          `Permission denied. Please allow write access to ${recent.label} to save into it.`
+        );
+        return;
+      }
+
+      await rememberDirectory(recent.handle);
+      loadRecentDirectories();
+      setDestination({ kind: "browser", directory: recent.handle });
+      // Status will be set by checkExistingFiles
+    } catch (error) {
+      console.error("Recent directory error:", error);
+      setStatus(`Error opening ${recent.label}: ${error}`);
+    }
+  };
+
+  const handleForgetDirectory = async (recent: RecentDirectory) => {
+    try {
+      await forgetDirectory(recent.id);
+    } catch (error) {
+      console.warn("Could not forget the directory:", error);
+    }
+    loadRecentDirectories();
+  };
+
+  const handleSelectArchive = () => {
+    setDestination({ kind: "archive" });
+    // Status will be set by checkExistingFiles
+  };
+
+  const handleSelectServerFolder = () => {
+    if (!serverOutputDir) return;
+
+    const folder = serverFolder.trim();
+    setDestination({
+      kind: "server",
+      folder,
+      path: folder ? `${serverOutputDir}/${folder}` : serverOutputDir,
+    });
+    // Status will be set by checkExistingFiles
+  };
+
+  const folderTemplateError = destinationSettings.folderTemplate
+    ? validateFolderTemplate(destinationSettings.folderTemplate)
+    : null;
+  const renameTemplateError = destinationSettings.renameTemplate
+    ? validateRenameTemplate(destinationSettings.renameTemplate)
+    : null;
+  const cannotChoose =
+    disabled ||
+    isCheckingFiles ||
+    !!folderTemplateError ||
+    !!renameTemplateError;
+
   const totalSelected = mediaItems.length;
   const existingCount = existingFiles.size;
   const newFilesCount = filteredMediaItems.length;
@@ -142,7 +482,7 @@ export default function DirectorySelector({
       </div>
 
       {/* File Summary */}
-      {selectedDirectory && !isCheckingFiles && (
+      {destination && !isCheckingFiles && (
         <div
           style={{
             textAlign: "center",
@@ -159,42 +499,334 @@ export default function DirectorySelector({
           <div>
             📂 Total selected: {totalSelected} files
             <br />✅ Already exist: {existingCount} files
+            {skippedCount > 0 && (
+              <>
+                <br />
+                🔀 Skipped, same name as another photo: {skippedCount} files
+              </>
+            )}
             <br />
             📥 To download: {newFilesCount} files
           </div>
         </div>
       )}
 
-      {/* Directory Selection */}
+      {/* File naming */}
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          fontSize: "14px",
+          color: "#666",
+        }}
+      >
+        <label htmlFor="folder-template">Sort into folders:</label>
+        <input
+          id="folder-template"
+          type="text"
+          list="folder-template-presets"
+          value={destinationSettings.folderTemplate ?? ""}
+          onChange={(e) =>
+            setDestinationSettings({
+              ...destinationSettings,
+              folderTemplate: e.target.value || undefined,
+            })
+          }
+          placeholder="No folders, e.g. {yyyy}/{MM}"
+          disabled={disabled}
+          style={{
+            padding: "6px 8px",
+            border: "1px solid #ccc",
+            borderRadius: "4px",
+            fontSize: "14px",
+          }}
+        />
+        <datalist id="folder-template-presets">
+          {FOLDER_TEMPLATE_PRESETS.map((preset) => (
+            <option key={preset} value={preset} />
+          ))}
+        </datalist>
+      </div>
+      {folderTemplateError && (
+        <div style={{ fontSize: "12px", color: "#d32f2f" }}>
+          ⚠️ {folderTemplateError}. Use {"{yyyy}"}, {"{MM}"}, {"{dd}"} or{" "}
+          {"{type}"}, dates are in UTC.
+        </div>
+      )}
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          fontSize: "14px",
+          color: "#666",
+        }}
+      >
+        <label htmlFor="rename-template">Rename files:</label>
+        <input
+          id="rename-template"
+          type="text"
+          list="rename-template-presets"
+          value={destinationSettings.renameTemplate ?? ""}
+          onChange={(e) =>
+            setDestinationSettings({
+              ...destinationSettings,
+              renameTemplate: e.target.value || undefined,
+            })
+          }
+          placeholder="Keep Google's names"
+          disabled={disabled}
+          style={{
+            padding: "6px 8px",
+            border: "1px solid #ccc",
+            borderRadius: "4px",
+            fontSize: "14px",
+          }}
+        />
+        <datalist id="rename-template-presets">
+          {RENAME_TEMPLATE_PRESETS.map((preset) => (
+            <option key={preset} value={preset} />
+          ))}
+        </datalist>
+      </div>
+      {renameTemplateError && (
+        <div style={{ fontSize: "12px", color: "#d32f2f" }}>
+          ⚠️ {renameTemplateError}. Use date patterns like {"{yyyy-MM-dd}"},{" "}
+          {"{name}"}, {"{ext}"}, {"{id}"} or {"{counter}"}.
+        </div>
+      )}
       <div
         style={{
           display: "flex",
-          flexDirection: "column",
-          gap: "12px",
           alignItems: "center",
+          gap: "8px",
+          fontSize: "14px",
+          color: "#666",
         }}
       >
-        <button
-          onClick={handleSelectDirectory}
+        <label htmlFor="collision-strategy">
+          When photos share a filename:
+        </label>
+        <select
+          id="collision-strategy"
+          value={destinationSettings.collisionStrategy}
+          onChange={(e) =>
+            setDestinationSettings({
+              ...destinationSettings,
+              collisionStrategy: e.target.value as CollisionStrategy,
+            })
+          }
           disabled={disabled || isCheckingFiles}
           style={{
-            padding: "12px 24px",
-            fontSize: "16px",
-            fontWeight: "bold",
-            color: "white",
-            backgroundColor: disabled || isCheckingFiles ? "#ccc" : "#ff9800",
-            border: "none",
-            borderRadius: "8px",
-            cursor: disabled || isCheckingFiles ? "not-allowed" : "pointer",
-            minWidth: "200px",
+            padding: "6px 8px",
+            borderRadius: "4px",
+            border: "1px solid #ccc",
+            fontSize: "14px",
           }}
         >
-          {isCheckingFiles
-            ? "Checking files..."
-            : selectedDirectory
-            ? "📂 Change Directory"
-            : "📂 Choose Directory"}
-        </button>
+          <option value="suffix">Number them - IMG_0001 (2).JPG</option>
+          <option value="id-suffix">
+            Add the photo id - IMG_0001_a1b2c3.JPG
+          </option>
+          <option value="skip">Only keep the oldest</option>
+        </select>
+      </div>
+      <label
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          fontSize: "14px",
+          color: "#666",
+          cursor: "pointer",
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={destinationSettings.skipDuplicateContent ?? false}
+          onChange={(e) =>
+            setDestinationSettings({
+              ...destinationSettings,
+              skipDuplicateContent: e.target.checked,
+            })
+          }
+          disabled={disabled || isCheckingFiles}
+        />
+        Skip photos already saved under another name (reads every file in the
+        directory)
+      </label>
+
+      {/* Directory Selection */}
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "12px",
+          alignItems: "center",
+        }}
+      >
+        {canSaveToDirectory(capabilities) ? (
+          <>
+            <button
+              onClick={handleSelectDirectory}
+              disabled={cannotChoose}
+              style={{
+                padding: "12px 24px",
+                fontSize: "16px",
+                fontWeight: "bold",
+                color: "white",
+                backgroundColor: cannotChoose ? "#ccc" : "#ff9800",
+                border: "none",
+                borderRadius: "8px",
+                cursor: cannotChoose ? "not-allowed" : "pointer",
+                minWidth: "200px",
+              }}
+            >
+              {isCheckingFiles
+                ? "Checking files..."
+                : destination?.kind === "browser"
+                ? "📂 Change Directory"
+                : "📂 Choose Directory"}
+            </button>
+            {recentDirectories.length > 0 && (
+              <div
+                style={{
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: "6px",
+                  alignItems: "center",
+                  fontSize: "14px",
+                  color: "#666",
+                }}
+              >
+                <div>or use a recent directory</div>
+                {recentDirectories.map((recent) => (
+                  <div key={recent.id} style={{ display: "flex", gap: "4px" }}>
+                    <button
+                      onClick={() => handleSelectRecentDirectory(recent)}
+                      disabled={cannotChoose}
+                      title={`Last used ${new Date(
+                        recent.lastUsed
+                      ).toLocaleString()}`}
+                      style={{
+                        padding: "6px 12px",
+                        fontSize: "14px",
+                        color: "#333",
+                        backgroundColor: "white",
+                        border: "1px solid #ccc",
+                        borderRadius: "4px",
+                        cursor: cannotChoose ? "not-allowed" : "pointer",
+                      }}
+                    >
+                      📁 {recent.label}
+                    </button>
+                    <button
+                      onClick={() => handleForgetDirectory(recent)}
+                      disabled={cannotChoose}
+                      title="Forget this directory"
+                      style={{
+                        padding: "6px 8px",
+                        fontSize: "12px",
+                        color: "#666",
+                        backgroundColor: "white",
+                        border: "1px solid #ccc",
+                        borderRadius: "4px",
+                        cursor: cannotChoose ? "not-allowed" : "pointer",
+                      }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <div
+              style={{
+                fontSize: "14px",
+                color: "#666",
+                textAlign: "center",
+                maxWidth: "400px",
+              }}
+            >
+              This browser doesn't support{" "}
+              {describeMissingCapabilities(capabilities)}, so your photos are
+              downloaded as one ZIP file instead
+            </div>
+            <button
+              onClick={handleSelectArchive}
+              disabled={cannotChoose}
+              style={{
+                padding: "12px 24px",
+                fontSize: "16px",
+                fontWeight: "bold",
+                color: "white",
+                backgroundColor: cannotChoose ? "#ccc" : "#ff9800",
+                border: "none",
+                borderRadius: "8px",
+                cursor: cannotChoose ? "not-allowed" : "pointer",
+                minWidth: "200px",
+              }}
+            >
+              {isCheckingFiles ? "Checking files..." : "🗜️ Download as ZIP"}
+            </button>
+          </>
+        )}
+
+        {/* Server output directory, when the server was started with one */}
+        {serverOutputDir && (
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              gap: "8px",
+              alignItems: "center",
+              padding: "12px",
+              border: "1px solid #e0e0e0",
+              borderRadius: "8px",
+              backgroundColor: "white",
+            }}
+          >
+            <div style={{ fontSize: "14px", color: "#666" }}>
+              or let the server save files straight into{" "}
+              <strong>{serverOutputDir}</strong>
+            </div>
+            <div style={{ display: "flex", gap: "8px" }}>
+              <input
+                type="text"
+                value={serverFolder}
+                onChange={(e) => setServerFolder(e.target.value)}
+                placeholder="Subfolder (optional)"
+                disabled={disabled || isCheckingFiles}
+                style={{
+                  padding: "8px",
+                  border: "1px solid #ccc",
+                  borderRadius: "4px",
+                  fontSize: "14px",
+                }}
+              />
+              <button
+                onClick={handleSelectServerFolder}
+                disabled={cannotChoose}
+                style={{
+                  padding: "8px 16px",
+                  fontSize: "14px",
+                  fontWeight: "bold",
+                  color: "white",
+                  backgroundColor: cannotChoose ? "#ccc" : "#607d8b",
+                  border: "none",
+                  borderRadius: "4px",
+                  cursor: cannotChoose ? "not-allowed" : "pointer",
+                }}
+              >
+                🖥️ Save on Server
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Status */}
@@ -1,28 +1,57 @@
-import { useState, useEffect } from "react";
-import type { MediaItem, DownloadSettings } from "./types";
+import { useState, useEffect, useRef } from "react";
+import type {
+  ContentIndex,
+  MediaItem,
+  DownloadSettings,
+  DownloadedFile,
+  DownloadProgress,
+  FailureCategory,
+  JobEvent,
+  ManifestEntry,
+  SaveDestination,
+} from "./types";
+import {
+  getDestinationName,
+  getFileHandleAtPath,
+  hashDirectoryFile,
+  recordInDirectoryManifest,
+  writeDirectorySidecar,
+  writeDirectoryXmpSidecar,
+} from "./FileService";
+import { copyContentIndex, hashFilesOfSize } from "./contentIndex";
+import { MANIFEST_FLUSH_INTERVAL, createManifestEntry } from "./manifest";
+import { createSidecar, createXmpSidecar } from "./sidecar";
 
 interface DownloadManagerProps {
   mediaItems: MediaItem[];
   downloadSettings: DownloadSettings;
-  oauthToken: string;
+  oauthToken: string | null; // Null when the server holds the sign-in
   sessionId: string;
-  selectedDirectory: FileSystemDirectoryHandle;
+  destination: SaveDestination;
   existingCount: number;
+  contentIndex: ContentIndex;
   disabled?: boolean;
   onDownloadComplete?: () => void;
   onDownloadStatusChange?: (isDownloading: boolean) => void;
 }
 
-interface DownloadProgress {
-  total: number;
-  downloaded: number;
-  failed: number;
-  currentFile: string | null;
-  isComplete: boolean;
-  errors: string[];
-  files: Array<{ filename: string; size: number; ready: boolean }>;
+interface SavingFile {
+  filename: string;
+  bytesWritten: number;
+  totalBytes: number | null;
 }
 
+const failureLabels: Record<FailureCategory, string> = {
+  expired: "Download link expired",
+  unauthorized: "Google sign-in expired",
+  "not-found": "Not found on Google Photos",
+  throttled: "Throttled by Google",
+  server: "Google server error",
+  network: "Network error",
+  invalid: "Invalid media item",
+  unknown: "Download failed",
+};
+
 // Utility function to format bytes into human-readable sizes
 function formatFileSize(bytes: number): string {
   if (bytes === 0) return "0 B";
@@ -34,13 +63,117 @@ function formatFileSize(bytes: number): string {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
 }
 
+// Fold a server event into the last known progress
+function applyJobEvent(
+  progress: DownloadProgress | null,
+  event: JobEvent
+): DownloadProgress | null {
+  if (event.type === "snapshot") return event.progress;
+  if (!progress) return progress;
+
+  const withoutItem = (itemId: string) =>
+    progress.activeFiles.filter((file) => file.itemId !== itemId);
+
+  switch (event.type) {
+    case "item-started":
+      return {
+        ...progress,
+        activeFiles: [
+          ...progress.activeFiles,
+          {
+            itemId: event.itemId,
+            filename: event.filename,
+            bytesReceived: 0,
+            totalBytes: null,
+            attempt: 1,
+          },
+        ],
+      };
+    case "item-progress":
+      return {
+        ...progress,
+        activeFiles: progress.activeFiles.map((file) =>
+          file.itemId === event.itemId
+            ? {
+                ...file,
+                bytesReceived: event.bytesReceived,
+                totalBytes: event.totalBytes,
+                attempt: event.attempt,
+              }
+            : file
+        ),
+      };
+    case "item-completed":
+      return {
+        ...progress,
+        downloaded: progress.downloaded + 1,
+        files: [...progress.files, event.file],
+        activeFiles: withoutItem(event.itemId),
+      };
+    case "item-failed":
+      return {
+        ...progress,
+        failed: progress.failed + 1,
+        errors: [...progress.errors, event.failure],
+        activeFiles: withoutItem(event.failure.itemId),
+      };
+    case "item-stopped":
+      return { ...progress, activeFiles: withoutItem(event.itemId) };
+    case "status":
+      return { ...progress, status: event.status };
+    case "job-complete":
+      return {
+        ...progress,
+        status: event.status,
+        downloaded: event.downloaded,
+        failed: event.failed,
+        isComplete: true,
+        activeFiles: [],
+      };
+    default:
+      return progress;
+  }
+}
+
+// Whether the stream has nothing more to say about this run of the job
+function isFinalEvent(event: JobEvent): boolean {
+  return (
+    event.type === "job-complete" ||
+    event.type === "removed" ||
+    (event.type === "snapshot" && event.progress.isComplete)
+  );
+}
+
+// Hand a finished job's ZIP to the browser's own download manager
+function downloadArchive(progressId: string) {
+  const link = document.createElement("a");
+  link.href = `/api/archive?progressId=${encodeURIComponent(progressId)}`;
+  link.download = "";
+  link.click();
+}
+
+// Remove the server-side temporary files for a download, cancelling it if it's still running
+async function cleanupServerFiles(progressId: string) {
+  try {
+    await fetch("/api/cleanup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ progressId }),
+      keepalive: true,
+    });
+  } catch (error) {
+    console.warn("Failed to cleanup temporary files:", error);
+  }
+}
+
 export default function DownloadManager({
   mediaItems,
   downloadSettings,
   oauthToken,
   sessionId,
-  selectedDirectory,
+  destination,
   existingCount,
+  contentIndex,
   disabled,
   onDownloadComplete,
   onDownloadStatusChange,
@@ -51,6 +184,20 @@ export default function DownloadManager({
   const [progressId, setProgressId] = useState<string | null>(null);
   const [status, setStatus] = useState("");
   const [savedFiles, setSavedFiles] = useState<Set<string>>(new Set());
+  const [savingFile, setSavingFile] = useState<SavingFile | null>(null);
+  const [duplicateCount, setDuplicateCount] = useState(0);
+  // Server job to clean up when leaving this step. Jobs with failures keep their
+  // temp files until then so the failed items can be retried.
+  const pendingCleanupRef = useRef<string | null>(null);
+
+  // Cancel a running download, or cleanup one kept around for retries, when leaving this step
+  useEffect(() => {
+    return () => {
+      if (pendingCleanupRef.current) {
+        cleanupServerFiles(pendingCleanupRef.current);
+      }
+    };
+  }, []);
 
   // Notify parent when download status changes
   useEffect(() => {
@@ -68,69 +215,235 @@ export default function DownloadManager({
       .reduce((total, file) => total + file.size, 0);
   };
 
-  // Poll for download progress and save files
-  useEffect(() => {
-    if (!progressId || !isDownloading || !selectedDirectory) return;
-
-    const pollProgressAndSave = async () => {
-      try {
-        const response = await fetch(`/api/progress?id=${progressId}`);
-        if (response.ok) {
-          const progress = await response.json();
-          setDownloadProgress(progress);
-
-          // Save any ready files that haven't been saved yet
-          for (const fileInfo of progress.files) {
-            if (fileInfo.ready && !savedFiles.has(fileInfo.filename)) {
-              await saveFileToDirectory(fileInfo.filename);
-            }
-          }
-
-          if (progress.isComplete) {
-            setIsDownloading(false);
-            const savedCount = savedFiles.size;
-            const totalFiles = savedCount + existingCount;
-            const totalSize = getTotalDownloadedSize();
-            setStatus(
-              `🎉 Download complete! ${savedCount} new files saved (${formatFileSize(
-                totalSize
-              )}), ${existingCount} files already existed. Total: ${totalFiles} files in your directory.`
-            );
-
-            // Cleanup server-side temporary files
-            try {
-              await fetch("/api/cleanup", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ progressId }),
-              });
-            } catch (error) {
-              console.warn("Failed to cleanup temporary files:", error);
-            }
-
-            if (onDownloadComplete) {
-              onDownloadComplete();
-            }
-          }
+  // Files are saved one at a time, in the order the server finishes them
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const queuedFilesRef = useRef<Set<string>>(new Set());
+  const savedSizesRef = useRef<Map<string, number>>(new Map());
+  const downloadProgressRef = useRef<DownloadProgress | null>(null);
+  // Everything in the directory, including files saved by this run
+  const contentIndexRef = useRef<ContentIndex>(copyContentIndex(contentIndex));
+  const duplicateCountRef = useRef(0);
+  // Saved files not yet written to the directory's sync manifest
+  const manifestEntriesRef = useRef<Record<string, ManifestEntry>>({});
+
+  const flushManifest = async (directory: FileSystemDirectoryHandle) => {
+    const entries = manifestEntriesRef.current;
+    manifestEntriesRef.current = {};
+    try {
+      await recordInDirectoryManifest(directory, entries);
+    } catch (error) {
+      console.warn("Failed to update the sync manifest:", error);
+    }
+  };
+
+  // Called once the stream reports the job finished and every file is saved
+  const finishDownload = async (finalProgress: DownloadProgress) => {
+    if (!progressId) return;
+    setIsDownloading(false);
+
+    // The server keeps the manifest of its own output folders
+    if (destination.kind === "browser") {
+      await flushManifest(destination.directory);
+    }
+
+    const savedCount = savedSizesRef.current.size;
+    const duplicates =
+      duplicateCountRef.current > 0
+        ? ` ${duplicateCountRef.current} were already saved under another name.`
+        : "";
+    if (finalProgress.status === "cancelled") {
+      setStatus(
+        `⏹️ Download cancelled. ${savedCount} files were saved before it stopped.${duplicates}`
+      );
+      pendingCleanupRef.current = null;
+      await cleanupServerFiles(progressId);
+      return;
+    }
+
+    const totalFiles = savedCount + existingCount;
+    const totalSize = [...savedSizesRef.current.values()].reduce(
+      (total, size) => total + size,
+      0
+    );
+    const failures =
+      finalProgress.failed > 0
+        ? ` ${finalProgress.failed} files failed to download.`
+        : "";
+    const fetchesArchive = destination.kind === "archive" && savedCount > 0;
+    if (fetchesArchive) {
+      setStatus(
+        `🎉 Download complete! ${savedCount} files (${formatFileSize(
+          totalSize
+        )}) are in the ZIP archive your browser is downloading.${failures}`
+      );
+      downloadArchive(progressId);
+    } else {
+      setStatus(
+        `🎉 Download complete! ${savedCount} new files saved (${formatFileSize(
+          totalSize
+        )}), ${existingCount} files already existed.${duplicates} Total: ${totalFiles} files in your directory.${failures}`
+      );
+    }
+
+    // Cleanup server-side temporary files, unless there is something to retry.
+    // The server removes an archive's files itself once they have been fetched.
+    if (finalProgress.failed > 0) {
+      pendingCleanupRef.current = progressId;
+    } else {
+      pendingCleanupRef.current = null;
+      if (!fetchesArchive) await cleanupServerFiles(progressId);
+    }
+
+    if (onDownloadComplete) {
+      onDownloadComplete();
+    }
+  };
+
+  const handleJobEvent = (event: JobEvent) => {
+    const nextProgress = applyJobEvent(downloadProgressRef.current, event);
+    downloadProgressRef.current = nextProgress;
+    setDownloadProgress(nextProgress);
+
+    // Queue any ready files that haven't been saved yet
+    const readyFiles =
+      event.type === "snapshot"
+        ? event.progress.files
+        : event.type === "item-completed"
+        ? [event.file]
+        : [];
+    for (const fileInfo of readyFiles) {
+      if (!fileInfo.ready || queuedFilesRef.current.has(fileInfo.filename)) {
+        continue;
+      }
+      queuedFilesRef.current.add(fileInfo.filename);
+
+      // The server already wrote it to the output folder or kept it for the
+      // archive, or dropped it as a duplicate
+      if (destination.kind !== "browser") {
+        if (fileInfo.duplicateOf) {
+          markFileDuplicate();
+        } else {
+          markFileSaved(fileInfo);
         }
-      } catch (error) {
-        console.error("Failed to fetch progress:", error);
+        continue;
+      }
+
+      const { directory } = destination;
+      saveQueueRef.current = saveQueueRef.current.then(() =>
+        saveFileToDirectory(directory, fileInfo)
+      );
+    }
+
+    if (nextProgress && event.type !== "removed" && isFinalEvent(event)) {
+      saveQueueRef.current = saveQueueRef.current.then(() =>
+        finishDownload(nextProgress)
+      );
+    }
+  };
+
+  // The stream outlives renders, so it always calls the latest handler
+  const jobEventHandlerRef = useRef(handleJobEvent);
+  jobEventHandlerRef.current = handleJobEvent;
+
+  // Follow the server's progress stream while downloading
+  useEffect(() => {
+    if (!progressId || !isDownloading) return;
+
+    const events = new EventSource(`/api/progress/stream?id=${progressId}`);
+
+    events.onmessage = (message) => {
+      const event = JSON.parse(message.data) as JobEvent;
+      jobEventHandlerRef.current(event);
+      if (isFinalEvent(event)) events.close();
+    };
+
+    events.onerror = () => {
+      // EventSource reconnects by itself unless the server turned it away
+      if (events.readyState === EventSource.CLOSED) {
+        setStatus("Error: Lost connection to the download progress stream.");
+        setIsDownloading(false);
       }
     };
 
-    const interval = setInterval(pollProgressAndSave, 1000);
-    return () => clearInterval(interval);
-  }, [
-    progressId,
-    isDownloading,
-    selectedDirectory,
-    savedFiles,
-    existingCount,
-    onDownloadComplete,
-  ]);
+    return () => events.close();
+  }, [progressId, isDownloading]);
+
+  // Hand a renewed Google sign-in to the running job, which would otherwise
+  // fail every file it starts once the old token expires
+  const sentTokenRef = useRef(oauthToken);
+  useEffect(() => {
+    if (
+      !progressId ||
+      !isDownloading ||
+      !oauthToken ||
+      oauthToken === sentTokenRef.current
+    ) {
+      return;
+    }
+    sentTokenRef.current = oauthToken;
+
+    fetch(`/api/download/${progressId}/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ oauthToken }),
+    }).catch((error) =>
+      console.warn("Could not pass the renewed sign-in to the server:", error)
+    );
+  }, [progressId, isDownloading, oauthToken]);
+
+  const markFileSaved = ({ filename, size }: DownloadedFile) => {
+    savedSizesRef.current.set(filename, size);
+    setSavedFiles((prev) => new Set([...prev, filename]));
+  };
+
+  const markFileDuplicate = () => {
+    duplicateCountRef.current++;
+    setDuplicateCount(duplicateCountRef.current);
+  };
+
+  // Queue a manifest entry for a file in the browser directory
+  const queueManifestEntry = (
+    fileInfo: DownloadedFile,
+    directory: FileSystemDirectoryHandle
+  ) => {
+    const item = mediaItems.find(({ id }) => id === fileInfo.itemId);
+    if (!item) return;
+
+    manifestEntriesRef.current[item.id] = createManifestEntry(
+      item,
+      fileInfo,
+      downloadSettings
+    );
+    if (
+      Object.keys(manifestEntriesRef.current).length >= MANIFEST_FLUSH_INTERVAL
+    ) {
+      saveQueueRef.current = saveQueueRef.current.then(() =>
+        flushManifest(directory)
+      );
+    }
+  };
+
+  const saveFileToDirectory = async (
+    directory: FileSystemDirectoryHandle,
+    fileInfo: DownloadedFile
+  ) => {
+    if (!progressId) return;
+
+    const { filename } = fileInfo;
 
-  const saveFileToDirectory = async (filename: string) => {
-    if (!selectedDirectory || !progressId) return;
+    // Checked here rather than when queued, so files saved earlier count too
+    let duplicateOf: string | undefined;
+    if (downloadSettings.skipDuplicateContent && fileInfo.sha256) {
+      await hashFilesOfSize(contentIndexRef.current, fileInfo.size, (path) =>
+        hashDirectoryFile(directory, path)
+      );
+      duplicateOf = contentIndexRef.current.hashes.get(fileInfo.sha256);
+    }
+    if (duplicateOf !== undefined && duplicateOf !== filename) {
+      markFileDuplicate();
+      queueManifestEntry({ ...fileInfo, duplicateOf }, directory);
+      return;
+    }
 
     try {
       // Download file from server
@@ -139,43 +452,82 @@ export default function DownloadManager({
           filename
         )}`
       );
-      if (!response.ok) throw new Error("Failed to fetch file from server");
-
-      // Get file data
-      const arrayBuffer = await response.arrayBuffer();
+      if (!response.ok || !response.body)
+        throw new Error("Failed to fetch file from server");
 
       // Request permission for this specific file if needed
-      const permission = await selectedDirectory.requestPermission({
+      const permission = await directory.requestPermission({
         mode: "readwrite",
       });
       if (permission !== "granted") {
         throw new Error("Permission denied to write to directory");
       }
 
-      // Create file in selected directory
-      const fileHandle = await selectedDirectory.getFileHandle(filename, {
+      // Create file in selected directory. Browsers can't set a file's
+      // modification time, so it stays the time it was saved; the time the
+      // photo was taken is kept in the manifest instead.
+      const fileHandle = await getFileHandleAtPath(directory, filename, {
         create: true,
       });
       const writable = await fileHandle.createWritable();
-      await writable.write(arrayBuffer);
-      await writable.close();
 
-      setSavedFiles((prev) => new Set([...prev, filename]));
+      // Pipe the response straight into the file, chunk by chunk
+      const contentLength = Number(response.headers.get("Content-Length"));
+      const totalBytes = contentLength > 0 ? contentLength : null;
+      let bytesWritten = 0;
+      let lastUpdate = 0;
+      setSavingFile({ filename, bytesWritten, totalBytes });
+
+      await response.body
+        .pipeThrough(
+          new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+              bytesWritten += chunk.byteLength;
+              // Throttle re-renders while large files stream through
+              if (Date.now() - lastUpdate > 250) {
+                lastUpdate = Date.now();
+                setSavingFile({ filename, bytesWritten, totalBytes });
+              }
+              controller.enqueue(chunk);
+            },
+          })
+        )
+        .pipeTo(writable);
+
+      const item = mediaItems.find(({ id }) => id === fileInfo.itemId);
+      if (downloadSettings.writeSidecars && item) {
+        await writeDirectorySidecar(directory, createSidecar(item, fileInfo));
+      }
+      const xmp =
+        fileInfo.needsXmpSidecar && item
+          ? createXmpSidecar(item.createTime)
+          : null;
+      if (xmp) await writeDirectoryXmpSidecar(directory, filename, xmp);
+
+      markFileSaved(fileInfo);
+      const { hashes } = contentIndexRef.current;
+      if (fileInfo.sha256 && !hashes.has(fileInfo.sha256)) {
+        hashes.set(fileInfo.sha256, filename);
+      }
+      queueManifestEntry(fileInfo, directory);
     } catch (error) {
       console.error(`Failed to save ${filename}:`, error);
       setStatus(`Error saving ${filename}: ${error}`);
+    } finally {
+      setSavingFile(null);
     }
   };
 
+  // Server destinations are written by the server, browser ones are saved from here
+  const outputFolder =
+    destination.kind === "server" ? destination.folder : undefined;
+  const archive = destination.kind === "archive";
+
   const handleStartDownload = async () => {
-    if (!selectedDirectory || !mediaItems.length) {
-      if (mediaItems.length === 0) {
-        setStatus(
-          "All files already exist in the selected directory. Nothing to download!"
-        );
-      } else {
-        setStatus("Please select a directory first.");
-      }
+    if (!mediaItems.length) {
+      setStatus(
+        "All files already exist in the selected directory. Nothing to download!"
+      );
       return;
     }
 
@@ -183,6 +535,14 @@ export default function DownloadManager({
     setStatus("Starting downloads...");
     setDownloadProgress(null);
     setSavedFiles(new Set());
+    downloadProgressRef.current = null;
+    saveQueueRef.current = Promise.resolve();
+    queuedFilesRef.current = new Set();
+    savedSizesRef.current = new Map();
+    manifestEntriesRef.current = {};
+    contentIndexRef.current = copyContentIndex(contentIndex);
+    duplicateCountRef.current = 0;
+    setDuplicateCount(0);
 
     try {
       const sessionData = {
@@ -191,6 +551,8 @@ export default function DownloadManager({
         mediaItems: mediaItems, // Only download new files (already filtered)
         downloadSettings,
         timestamp: new Date().toISOString(),
+        outputFolder,
+        archive,
       };
 
       const response = await fetch("/api/download", {
@@ -208,8 +570,11 @@ export default function DownloadManager({
 
       const result = await response.json();
       setProgressId(result.progressId);
+      pendingCleanupRef.current = result.progressId;
       setStatus(
-        `Downloads started! ${mediaItems.length} files will be saved to ${selectedDirectory.name}...`
+        `Downloads started! ${
+          mediaItems.length
+        } files will be saved to ${getDestinationName(destination)}...`
       );
     } catch (error) {
       console.error("Download start error:", error);
@@ -222,14 +587,102 @@ export default function DownloadManager({
     }
   };
 
+  const handleRetryFailed = async () => {
+    if (!progressId || !downloadProgress) return;
+
+    const failedIds = new Set(
+      downloadProgress.errors.map((error) => error.itemId)
+    );
+    const failedItems = mediaItems.filter((item) => failedIds.has(item.id));
+    if (failedItems.length === 0) return;
+
+    setStatus(`Retrying ${failedItems.length} failed files...`);
+
+    try {
+      const response = await fetch("/api/download", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          oauthToken,
+          sessionId,
+          mediaItems: failedItems,
+          downloadSettings,
+          timestamp: new Date().toISOString(),
+          progressId,
+          outputFolder,
+          archive,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to retry downloads");
+      }
+
+      // Only follow the stream once the job is running again, so the first
+      // snapshot isn't the finished run being retried
+      setIsDownloading(true);
+    } catch (error) {
+      console.error("Download retry error:", error);
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred retrying downloads.";
+      setStatus(`Error: ${errorMessage}`);
+      setIsDownloading(false);
+    }
+  };
+
+  const handleJobControl = async (action: "pause" | "resume" | "cancel") => {
+    if (!progressId) return;
+
+    if (
+      action === "cancel" &&
+      !window.confirm(
+        "Cancel this download? Files that have already been saved will be kept."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/download/${progressId}/${action}`, {
+        method: "POST",
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to ${action} download`);
+      }
+
+      if (action === "pause") setStatus("⏸️ Download paused.");
+      if (action === "resume") setStatus("Download resumed...");
+      if (action === "cancel") setStatus("Cancelling download...");
+    } catch (error) {
+      console.error(`Download ${action} error:`, error);
+      const errorMessage =
+        error instanceof Error ? error.message : `Failed to ${action} download`;
+      setStatus(`Error: ${errorMessage}`);
+    }
+  };
+
   const savedCount = savedFiles.size;
   const newFilesCount = mediaItems.length;
+  const isPaused = isDownloading && downloadProgress?.status === "paused";
+  const failedCount =
+    downloadProgress?.status === "complete" && !isDownloading
+      ? downloadProgress.failed
+      : 0;
   const totalDownloadedSize = getTotalDownloadedSize();
 
   // Determine button text and state
   const getButtonText = () => {
+    if (isPaused) return "⏸️ Paused";
     if (isDownloading) return "Downloading...";
     if (newFilesCount === 0) return "Nothing to Download";
+    if (downloadProgress?.status === "cancelled")
+      return "⏹️ Download Cancelled";
     if (downloadProgress?.isComplete) return "✅ Download Complete";
     return `🚀 Download ${newFilesCount} Files`;
   };
@@ -261,7 +714,9 @@ export default function DownloadManager({
         <p style={{ margin: 0, color: "#666", fontSize: "14px" }}>
           {newFilesCount === 0
             ? "All files already exist in your directory"
-            : `Download ${newFilesCount} files to ${selectedDirectory.name}`}
+            : `Download ${newFilesCount} files to ${getDestinationName(
+                destination
+              )}`}
         </p>
       </div>
 
@@ -291,6 +746,57 @@ export default function DownloadManager({
         >
           {getButtonText()}
         </button>
+
+        {isDownloading && progressId && (
+          <div style={{ display: "flex", gap: "8px" }}>
+            <button
+              onClick={() => handleJobControl(isPaused ? "resume" : "pause")}
+              style={{
+                padding: "8px 16px",
+                fontSize: "14px",
+                color: "#666",
+                backgroundColor: "white",
+                border: "1px solid #ccc",
+                borderRadius: "6px",
+                cursor: "pointer",
+              }}
+            >
+              {isPaused ? "▶️ Resume" : "⏸️ Pause"}
+            </button>
+            <button
+              onClick={() => handleJobControl("cancel")}
+              style={{
+                padding: "8px 16px",
+                fontSize: "14px",
+                color: "#d32f2f",
+                backgroundColor: "transparent",
+                border: "1px solid #d32f2f",
+                borderRadius: "6px",
+                cursor: "pointer",
+              }}
+            >
+              ⏹️ Cancel
+            </button>
+          </div>
+        )}
+
+        {failedCount > 0 && (
+          <button
+            onClick={handleRetryFailed}
+            disabled={disabled}
+            style={{
+              padding: "8px 16px",
+              fontSize: "14px",
+              color: "#d32f2f",
+              backgroundColor: "transparent",
+              border: "1px solid #d32f2f",
+              borderRadius: "6px",
+              cursor: disabled ? "not-allowed" : "pointer",
+            }}
+          >
+            🔁 Retry {failedCount} failed
+          </button>
+        )}
       </div>
 
       {/* Status */}
@@ -339,8 +845,8 @@ export default function DownloadManager({
               📥 Download Progress
             </div>
             <div style={{ fontSize: "14px", color: "#666", lineHeight: "1.4" }}>
-              {savedCount} of {downloadProgress.total} new files saved to
-              directory
+              {savedCount} of {downloadProgress.total} new files{" "}
+              {archive ? "ready for the archive" : "saved to directory"}
               <br />
               <span style={{ fontWeight: "bold", color: "#4CAF50" }}>
                 📊 {formatFileSize(totalDownloadedSize)} saved
@@ -360,7 +866,8 @@ export default function DownloadManager({
               style={{
                 width: `${
                   downloadProgress.total > 0
-                    ? (savedCount / downloadProgress.total) * 100
+                    ? ((savedCount + duplicateCount) / downloadProgress.total) *
+                      100
                     : 0
                 }%`,
                 backgroundColor: "#4CAF50",
@@ -380,17 +887,42 @@ export default function DownloadManager({
                 ⏭️ Already existed: {existingCount}
               </>
             )}
+            {duplicateCount > 0 && (
+              <>
+                <br />
+                ♻️ Already saved under another name: {duplicateCount}
+              </>
+            )}
           </div>
 
-          {downloadProgress.currentFile && (
+          {downloadProgress.activeFiles.length > 0 && (
+            <div
+              style={{ fontSize: "12px", color: "#666", textAlign: "center" }}
+            >
+              Currently downloading ({downloadProgress.activeFiles.length}):
+              {downloadProgress.activeFiles.map((file, index) => (
+                <div key={`${file.filename}-${index}`}>
+                  {file.filename} — {formatFileSize(file.bytesReceived)}
+                  {file.totalBytes !== null &&
+                    ` of ${formatFileSize(file.totalBytes)}`}
+                  {file.attempt > 1 && ` (attempt ${file.attempt})`}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {savingFile && (
             <div
               style={{ fontSize: "12px", color: "#666", textAlign: "center" }}
             >
-              Currently downloading: {downloadProgress.currentFile}
+              Saving to directory: {savingFile.filename} —{" "}
+              {formatFileSize(savingFile.bytesWritten)}
+              {savingFile.totalBytes !== null &&
+                ` of ${formatFileSize(savingFile.totalBytes)}`}
             </div>
           )}
 
-          {downloadProgress.isComplete && (
+          {downloadProgress.status === "complete" && (
             <div
               style={{
                 textAlign: "center",
@@ -398,7 +930,9 @@ export default function DownloadManager({
                 fontWeight: "bold",
               }}
             >
-              🎉 All new files saved to your directory!
+              {archive
+                ? "🎉 All new files are in the ZIP archive!"
+                : "🎉 All new files saved to your directory!"}
             </div>
           )}
 
@@ -409,7 +943,11 @@ export default function DownloadManager({
               </summary>
               <div style={{ marginTop: "8px", color: "#d32f2f" }}>
                 {downloadProgress.errors.map((error, index) => (
-                  <div key={index}>• {error}</div>
+                  <div key={index}>
+                    • {error.filename}: {failureLabels[error.category]}
+                    {error.status !== null && ` (HTTP ${error.status})`}
+                    {error.attempts > 1 && ` after ${error.attempts} attempts`}
+                  </div>
                 ))}
               </div>
             </details>
@@ -1,10 +1,16 @@
 import { useState } from "react";
+import {
+  DEFAULT_DOWNLOAD_SETTINGS,
+  parseDownloadSettings,
+  serializeDownloadSettings,
+} from "./settings";
 import type { DownloadSettings, MediaItem } from "./types";
 
 interface DownloadSettingsProps {
   mediaItems: MediaItem[];
   originalMediaItems: MediaItem[];
   existingCount: number;
+  initialSettings?: DownloadSettings; // From the active profile
   onSettingsConfirmed: (
     settings: DownloadSettings,
     filteredItems: MediaItem[]
@@ -13,25 +19,51 @@ interface DownloadSettingsProps {
   disabled?: boolean;
 }
 
-const defaultSettings: DownloadSettings = {
-  includePhotos: true,
-  includeVideos: true,
-  imageQuality: "original",
-  imageCrop: false,
-  videoQuality: "original",
-  videoRemoveOverlay: false,
-};
+const STORAGE_KEY = "google-photos-sync:download-settings";
+
+function loadSavedSettings(): DownloadSettings {
+  try {
+    return parseDownloadSettings(localStorage.getItem(STORAGE_KEY));
+  } catch {
+    // Storage can be blocked, the defaults still work
+    return { ...DEFAULT_DOWNLOAD_SETTINGS };
+  }
+}
+
+// The server keeps a copy for jobs that are started without settings
+function saveSettings(settings: DownloadSettings | null) {
+  try {
+    if (settings) {
+      localStorage.setItem(STORAGE_KEY, serializeDownloadSettings(settings));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn("Could not save download settings:", error);
+  }
+
+  fetch("/api/settings/defaults", {
+    method: settings ? "PUT" : "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: settings ? JSON.stringify(settings) : undefined,
+  }).catch((error) =>
+    console.warn("Could not save download settings on the server:", error)
+  );
+}
 
 export default function DownloadSettings({
   mediaItems,
   originalMediaItems,
   existingCount,
+  initialSettings,
   onSettingsConfirmed,
   onCancel,
   disabled = false,
 }: DownloadSettingsProps) {
   const [showModal, setShowModal] = useState(false);
-  const [settings, setSettings] = useState<DownloadSettings>(defaultSettings);
+  const [settings, setSettings] = useState<DownloadSettings>(
+    () => initialSettings ?? loadSavedSettings()
+  );
 
   // Count media types from original selection
   const originalPhotoCount = originalMediaItems.filter(
@@ -67,10 +99,16 @@ export default function DownloadSettings({
   };
 
   const handleConfirm = () => {
+    saveSettings(settings);
     onSettingsConfirmed(settings, filteredItems);
     setShowModal(false);
   };
 
+  const handleReset = () => {
+    saveSettings(null);
+    setSettings({ ...DEFAULT_DOWNLOAD_SETTINGS });
+  };
+
   const handleCancel = () => {
     setShowModal(false);
     onCancel();
@@ -488,6 +526,27 @@ export default function DownloadSettings({
                         Crop to exact dimensions (maintains aspect ratio)
                       </span>
                     </label>
+                    <label
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "8px",
+                        marginTop: "8px",
+                        cursor: "pointer",
+                      }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={!!settings.writeCaptureDate}
+                        onChange={(e) =>
+                          updateSettings({ writeCaptureDate: e.target.checked })
+                        }
+                        style={{ transform: "scale(1.1)" }}
+                      />
+                      <span style={{ fontSize: "14px" }}>
+                        Write the date taken into resized photos
+                      </span>
+                    </label>
                   </>
                 )}
               </div>
@@ -561,6 +620,94 @@ export default function DownloadSettings({
               </div>
             )}
 
+            {/* Metadata Settings */}
+            <div style={{ marginBottom: "24px" }}>
+              <h3
+                style={{
+                  margin: "0 0 12px 0",
+                  color: "#555",
+                  fontSize: "16px",
+                }}
+              >
+                🏷️ Metadata
+              </h3>
+              <label
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "8px",
+                  cursor: "pointer",
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={!!settings.writeSidecars}
+                  onChange={(e) =>
+                    updateSettings({ writeSidecars: e.target.checked })
+                  }
+                  style={{ transform: "scale(1.1)" }}
+                />
+                <span style={{ fontSize: "14px" }}>
+                  Save a .json file with each item's details next to it
+                </span>
+              </label>
+              <div
+                style={{ fontSize: "12px", color: "#666", marginTop: "4px" }}
+              >
+                Records the Google Photos id, date taken, type, original
+                filename, download size, quality and hash
+              </div>
+            </div>
+
+            {/* Performance Settings */}
+            <div style={{ marginBottom: "24px" }}>
+              <h3
+                style={{
+                  margin: "0 0 12px 0",
+                  color: "#555",
+                  fontSize: "16px",
+                }}
+              >
+                ⚡ Performance
+              </h3>
+              <label
+                style={{
+                  display: "block",
+                  marginBottom: "4px",
+                  fontSize: "14px",
+                }}
+              >
+                Parallel downloads:
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="16"
+                placeholder="Auto"
+                value={settings.concurrency || ""}
+                onChange={(e) =>
+                  updateSettings({
+                    concurrency: e.target.value
+                      ? parseInt(e.target.value)
+                      : undefined,
+                  })
+                }
+                style={{
+                  width: "100%",
+                  padding: "6px 8px",
+                  borderRadius: "4px",
+                  border: "1px solid #ddd",
+                  fontSize: "14px",
+                }}
+              />
+              <div
+                style={{ fontSize: "12px", color: "#666", marginTop: "4px" }}
+              >
+                More parallel downloads finish large selections sooner, but
+                Google may throttle very high values
+              </div>
+            </div>
+
             {/* Summary */}
             <div
               style={{
@@ -603,6 +750,21 @@ export default function DownloadSettings({
                 justifyContent: "flex-end",
               }}
             >
+              <button
+                onClick={handleReset}
+                title="Forget the saved settings and start from the defaults"
+                style={{
+                  marginRight: "auto",
+                  padding: "10px 20px",
+                  fontSize: "14px",
+                  color: "#666",
+                  backgroundColor: "transparent",
+                  border: "none",
+                  cursor: "pointer",
+                }}
+              >
+                ↺ Reset to defaults
+              </button>
               <button
                 onClick={handleCancel}
                 style={{
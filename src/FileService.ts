@@ -1,7 +1,122 @@
+import {
+  MANIFEST_FILENAME,
+  emptyManifest,
+  mergeManifest,
+  parseManifest,
+  serializeManifest,
+} from "./manifest";
+import {
+  addExistingFile,
+  createContentIndex,
+  isIndexedFile,
+} from "./contentIndex";
+import { DIRECTORY_STORE, withStore } from "./database";
+import { Sha256Hasher } from "./sha256";
+import { getSidecarPath, getXmpSidecarPath, serializeSidecar } from "./sidecar";
+import type {
+  ContentIndex,
+  ItemSidecar,
+  ManifestEntry,
+  RecentDirectory,
+  SaveDestination,
+  SyncManifest,
+} from "./types";
+
+// Picked directories are remembered, so they can be used again without the picker
+const MAX_RECENT_DIRECTORIES = 5;
+
+// Most recently used first
+export async function listRecentDirectories(): Promise<RecentDirectory[]> {
+  const directories = await withStore<RecentDirectory[]>(
+    DIRECTORY_STORE,
+    "readonly",
+    (store) => store.getAll()
+  );
+  return directories.sort((a, b) => b.lastUsed - a.lastUsed);
+}
+
+export async function forgetDirectory(id: string) {
+  await withStore(DIRECTORY_STORE, "readwrite", (store) => store.delete(id));
+}
+
+// Add a directory to the recent ones, or mark it as just used
+export async function rememberDirectory(handle: FileSystemDirectoryHandle) {
+  const recent = await listRecentDirectories();
+  let existing: RecentDirectory | undefined;
+  for (const directory of recent) {
+    if (await directory.handle.isSameEntry(handle)) {
+      existing = directory;
+      break;
+    }
+  }
+
+  const remembered: RecentDirectory = {
+    id: existing?.id ?? crypto.randomUUID(),
+    label: handle.name,
+    handle,
+    lastUsed: Date.now(),
+  };
+  await withStore(DIRECTORY_STORE, "readwrite", (store) =>
+    store.put(remembered)
+  );
+
+  const older = recent.filter(({ id }) => id !== remembered.id);
+  for (const directory of older.slice(MAX_RECENT_DIRECTORIES - 1)) {
+    await forgetDirectory(directory.id);
+  }
+}
+
+// Whether a remembered directory can still be written to. Asking for
+// permission needs a user gesture, so call this from a click handler.
+export async function verifyDirectoryAccess(
+  handle: FileSystemDirectoryHandle
+): Promise<"granted" | "denied" | "missing"> {
+  const descriptor = { mode: "readwrite" } as const;
+  try {
+    if (
+      (await handle.queryPermission(descriptor)) !== "granted" &&
+      (await handle.requestPermission(descriptor)) !== "granted"
+    ) {
+      return "denied";
+    }
+    // Throws once the directory has been deleted or moved
+    await handle.keys().next();
+    return "granted";
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "NotFoundError") {
+      return "missing";
+    }
+    throw error;
+  }
+}
+
+// Prompt for a directory and remember it for next time
 export async function getDirectoryHandle(): Promise<FileSystemDirectoryHandle> {
-  // TODO: Add IndexedDB logic for persistence
-  // For now, always prompt
-  return await window.showDirectoryPicker();
+  const handle = await window.showDirectoryPicker();
+  try {
+    await rememberDirectory(handle);
+  } catch (error) {
+    // Private windows may not have IndexedDB, the directory still works
+    console.warn("Could not remember the directory:", error);
+  }
+  return handle;
+}
+
+// Target paths use / between folders, missing folders are created along the
+// way when creating the file
+export async function getFileHandleAtPath(
+  dir: FileSystemDirectoryHandle,
+  path: string,
+  options: { create: boolean }
+): Promise<FileSystemFileHandle> {
+  const segments = path.split("/");
+  const name = segments.pop() ?? path;
+
+  let parent = dir;
+  for (const segment of segments) {
+    parent = await parent.getDirectoryHandle(segment, options);
+  }
+  return await parent.getFileHandle(name, options);
 }
 
 export async function fileExists(
@@ -9,7 +124,7 @@ export async function fileExists(
   fileName: string
 ): Promise<boolean> {
   try {
-    await dir.getFileHandle(fileName, { create: false });
+    await getFileHandleAtPath(dir, fileName, { create: false });
     return true;
   } catch (e: unknown) {
     if (
@@ -22,3 +137,116 @@ export async function fileExists(
     throw e;
   }
 }
+
+// Human readable name for where files are being saved
+export function getDestinationName(destination: SaveDestination): string {
+  if (destination.kind === "archive") return "a ZIP archive";
+  return destination.kind === "server"
+    ? destination.path
+    : destination.directory.name;
+}
+
+export async function readDirectoryManifest(
+  dir: FileSystemDirectoryHandle
+): Promise<SyncManifest> {
+  if (!(await fileExists(dir, MANIFEST_FILENAME))) return emptyManifest();
+
+  const fileHandle = await dir.getFileHandle(MANIFEST_FILENAME);
+  return parseManifest(await (await fileHandle.getFile()).text());
+}
+
+// Add entries to the directory's sync manifest
+export async function recordInDirectoryManifest(
+  dir: FileSystemDirectoryHandle,
+  entries: Record<string, ManifestEntry>
+) {
+  if (Object.keys(entries).length === 0) return;
+
+  const manifest = mergeManifest(await readDirectoryManifest(dir), entries);
+  const fileHandle = await dir.getFileHandle(MANIFEST_FILENAME, {
+    create: true,
+  });
+  // createWritable swaps the file in on close, so readers never see half of it
+  const writable = await fileHandle.createWritable();
+  await writable.write(serializeManifest(manifest));
+  await writable.close();
+}
+
+// Save the JSON sidecar of a file next to it
+export async function writeDirectorySidecar(
+  dir: FileSystemDirectoryHandle,
+  sidecar: ItemSidecar
+) {
+  const fileHandle = await getFileHandleAtPath(
+    dir,
+    getSidecarPath(sidecar.filename),
+    { create: true }
+  );
+  const writable = await fileHandle.createWritable();
+  await writable.write(serializeSidecar(sidecar));
+  await writable.close();
+}
+
+// Save the XMP sidecar holding the capture date of a file next to it
+export async function writeDirectoryXmpSidecar(
+  dir: FileSystemDirectoryHandle,
+  filename: string,
+  xmp: string
+) {
+  const fileHandle = await getFileHandleAtPath(
+    dir,
+    getXmpSidecarPath(filename),
+    { create: true }
+  );
+  const writable = await fileHandle.createWritable();
+  await writable.write(xmp);
+  await writable.close();
+}
+
+// Read in chunks, so large videos don't have to fit in memory
+export async function hashDirectoryFile(
+  dir: FileSystemDirectoryHandle,
+  path: string
+): Promise<string> {
+  const fileHandle = await getFileHandleAtPath(dir, path, { create: false });
+  const hasher = new Sha256Hasher();
+  const reader = (await fileHandle.getFile()).stream().getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hasher.update(value);
+  }
+  return hasher.digest();
+}
+
+// List the files in the directory and its subdirectories by size. Nothing is
+// read yet, files are hashed with hashDirectoryFile once a download is as big.
+export async function indexDirectoryContent(
+  dir: FileSystemDirectoryHandle,
+  manifest: SyncManifest,
+  onFileIndexed?: (count: number) => void
+): Promise<ContentIndex> {
+  const recorded = new Map(
+    Object.values(manifest.items).map((entry) => [entry.filename, entry])
+  );
+  const index = createContentIndex();
+  let indexedCount = 0;
+
+  const walk = async (directory: FileSystemDirectoryHandle, prefix: string) => {
+    for await (const handle of directory.values()) {
+      const path = `${prefix}${handle.name}`;
+      if (handle.kind === "directory") {
+        await walk(handle, `${path}/`);
+        continue;
+      }
+      if (path === MANIFEST_FILENAME || !isIndexedFile(path)) continue;
+
+      const { size } = await handle.getFile();
+      addExistingFile(index, path, size, recorded.get(path));
+      onFileIndexed?.(++indexedCount);
+    }
+  };
+
+  await walk(dir, "");
+  return index;
+}
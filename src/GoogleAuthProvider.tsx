@@ -8,12 +8,22 @@ interface User {
   picture: string;
 }
 
+// Google access tokens last an hour. "expiring" gives time to renew one
+// before running downloads start failing.
+export type TokenStatus = "valid" | "expiring" | "expired";
+
+const TOKEN_WARNING_MS = 5 * 60 * 1000;
+
 interface AuthContextType {
-  oauthToken: string | null;
+  oauthToken: string | null; // Always null when the server holds the sign-in
+  serverAuth: boolean; // Signed in through the server, which keeps the tokens
   setOauthToken: (token: string | null) => void;
   isSignedIn: boolean;
   user: User | null;
+  tokenExpiresAt: number | null;
+  tokenStatus: TokenStatus;
   signIn: () => void;
+  renewToken: () => void; // Needs a click, browsers block the popup otherwise
   signOut: () => void;
 }
 
@@ -28,14 +38,51 @@ export function useAuth() {
 function AuthProviderInner({ children }: { children: ReactNode }) {
   const [oauthToken, setOauthToken] = useState<string | null>(null);
   const [user, setUser] = useState<User | null>(null);
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | null>(null);
+  const [tokenStatus, setTokenStatus] = useState<TokenStatus>("valid");
+  const [serverAuth, setServerAuth] = useState(false);
+  const [serverSignedIn, setServerSignedIn] = useState(false);
+
+  // A server with a client secret signs in itself and refreshes the tokens,
+  // the browser only gets a session cookie
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((response) => response.json())
+      .then((session) => {
+        if (!session.enabled) return;
+        setServerAuth(true);
+        setServerSignedIn(session.signedIn);
+        setUser(session.user);
+      })
+      .catch((error) => console.warn("Could not load the sign-in:", error));
+  }, []);
 
   const login = useGoogleLogin({
     scope: "https://www.googleapis.com/auth/photospicker.mediaitems.readonly",
     onSuccess: (tokenResponse) => {
       setOauthToken(tokenResponse.access_token);
+      setTokenExpiresAt(Date.now() + tokenResponse.expires_in * 1000);
     },
   });
 
+  // Track when the token needs renewing
+  useEffect(() => {
+    if (!tokenExpiresAt) return;
+
+    const untilExpiry = tokenExpiresAt - Date.now();
+    setTokenStatus(untilExpiry > TOKEN_WARNING_MS ? "valid" : "expiring");
+    const warning = setTimeout(
+      () => setTokenStatus("expiring"),
+      untilExpiry - TOKEN_WARNING_MS
+    );
+    const expiry = setTimeout(() => setTokenStatus("expired"), untilExpiry);
+
+    return () => {
+      clearTimeout(warning);
+      clearTimeout(expiry);
+    };
+  }, [tokenExpiresAt]);
+
   // Fetch user info when token is available
   useEffect(() => {
     if (oauthToken) {
@@ -58,17 +105,40 @@ function AuthProviderInner({ children }: { children: ReactNode }) {
     }
   }, [oauthToken]);
 
+  // Google skips the consent screen for an account that already granted access,
+  // so the popup closes by itself
+  const renewToken = () => login({ prompt: "", hint: user?.email });
+
+  const signIn = () => {
+    if (serverAuth) {
+      window.location.assign("/auth/start");
+    } else {
+      login();
+    }
+  };
+
   const signOut = () => {
+    if (serverAuth) {
+      fetch("/api/auth/signout", { method: "POST" }).catch((error) =>
+        console.error("Failed to sign out:", error)
+      );
+      setServerSignedIn(false);
+    }
     setOauthToken(null);
+    setTokenExpiresAt(null);
     setUser(null);
   };
 
   const value: AuthContextType = {
     oauthToken,
+    serverAuth,
     setOauthToken,
-    isSignedIn: !!oauthToken,
+    isSignedIn: serverAuth ? serverSignedIn : !!oauthToken,
     user,
-    signIn: login,
+    tokenExpiresAt,
+    tokenStatus,
+    signIn,
+    renewToken,
     signOut,
   };
 
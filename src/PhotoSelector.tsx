@@ -10,7 +10,7 @@ import type { MediaItem } from "./types";
 interface PhotoSelectorProps {
   onPhotosSelected: (
     mediaItems: MediaItem[],
-    oauthToken: string,
+    oauthToken: string | null, // Null when the server holds the sign-in
     sessionId: string
   ) => void;
   disabled?: boolean;
@@ -257,7 +257,7 @@ export default function PhotoSelector({
   onPhotosSelected,
   disabled,
 }: PhotoSelectorProps) {
-  const { oauthToken } = useAuth();
+  const { oauthToken, isSignedIn } = useAuth();
   const [isSelecting, setIsSelecting] = useState(false);
   const [status, setStatus] = useState("");
   const [showOverlay, setShowOverlay] = useState(false);
@@ -273,7 +273,7 @@ export default function PhotoSelector({
   });
 
   const handleSelectPhotos = async () => {
-    if (!oauthToken) {
+    if (!isSignedIn) {
       setStatus("Please sign in first");
       return;
     }
@@ -483,17 +483,17 @@ export default function PhotoSelector({
 
         <button
           onClick={handleSelectPhotos}
-          disabled={disabled || isSelecting || !oauthToken}
+          disabled={disabled || isSelecting || !isSignedIn}
           style={{
             padding: "12px 24px",
             fontSize: "16px",
             fontWeight: "bold",
             color: "white",
-            backgroundColor: disabled || !oauthToken ? "#ccc" : "#4285f4",
+            backgroundColor: disabled || !isSignedIn ? "#ccc" : "#4285f4",
             border: "none",
             borderRadius: "8px",
             cursor:
-              disabled || isSelecting || !oauthToken
+              disabled || isSelecting || !isSignedIn
                 ? "not-allowed"
                 : "pointer",
             minWidth: "180px",
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { parseDuration, waitForPicking } from "./PickerService";
+
+function sessionResponse(session: object) {
+  return async () => Response.json(session);
+}
+
+test("parseDuration", () => {
+  expect(parseDuration("1799s")).toBe(1_799_000);
+  expect(parseDuration("2.5s")).toBe(2500);
+  expect(parseDuration("5")).toBeNull();
+  expect(parseDuration(undefined)).toBeNull();
+});
+
+describe("waitForPicking", () => {
+  test("is done once the photos are picked", async () => {
+    let polls = 0;
+    const picked = await waitForPicking(async () => {
+      polls++;
+      return Response.json({
+        mediaItemsSet: polls === 2,
+        pollingConfig: { pollInterval: "0s", timeoutIn: "60s" },
+      });
+    });
+    expect(picked).toBe(true);
+    expect(polls).toBe(2);
+  });
+
+  test("gives up when the session times out or is cancelled", async () => {
+    expect(
+      await waitForPicking(
+        sessionResponse({ pollingConfig: { timeoutIn: "0s" } })
+      )
+    ).toBe(false);
+    expect(
+      await waitForPicking(sessionResponse({ mediaItemsSet: true }), () => true)
+    ).toBe(false);
+  });
+
+  test("reports sessions that can't be checked", async () => {
+    await expect(
+      waitForPicking(async () => new Response(null, { status: 404 }))
+    ).rejects.toThrow("Failed to check the picker session: HTTP 404");
+  });
+});
@@ -1,21 +1,32 @@
 import type { MediaItem } from "./types";
 
+// The server's proxy and the CLI call the API directly too
+export const PICKER_API = "https://photospicker.googleapis.com/v1";
+
+// A null token means the server holds the sign-in, so the request goes
+// through its proxy, which adds the token
+function pickerFetch(
+  path: string,
+  oauthToken: string | null,
+  init: RequestInit = {}
+) {
+  if (!oauthToken) return fetch(`/api/picker${path}`, init);
+
+  return fetch(`${PICKER_API}${path}`, {
+    ...init,
+    headers: { ...init.headers, Authorization: `Bearer ${oauthToken}` },
+  });
+}
+
 export async function createPickerSession({
   oauthToken,
 }: {
-  oauthToken: string;
+  oauthToken: string | null;
 }) {
-  if (!oauthToken) {
-    throw new Error(
-      "OAuth token of type 'string' for createPickerSession could not be found"
-    );
-  }
-
-  const res = await fetch("https://photospicker.googleapis.com/v1/sessions", {
+  const res = await pickerFetch("/sessions", oauthToken, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
-      Authorization: `Bearer ${oauthToken}`,
     },
   });
 
@@ -37,113 +48,71 @@ export async function createPickerSession({
   };
 }
 
-export async function pollSession({
-  oauthToken,
-  sessionId,
-  onCancel,
-}: {
-  oauthToken: string;
-  sessionId: string;
-  onCancel?: () => boolean; // Function that returns true if polling should be cancelled
-}) {
-  if (!oauthToken || !sessionId) {
-    throw new Error(
-      `Missing oauthToken or sessionId for pollSession - oauthToken: ${!!oauthToken}, sessionId: ${!!sessionId}`
-    );
-  }
-
-  let pollInterval = 1500; // Start with 1.5 seconds
-  const minPollInterval = 1000; // Minimum 1 second between polls
-  let totalTimeout = 300000; // 5 minutes total timeout
-  let elapsed = 0;
+const MIN_POLL_INTERVAL_MS = 1000;
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_PICK_TIMEOUT_MS = 30 * 60 * 1000; // When Google doesn't say
 
-  while (elapsed < totalTimeout) {
-    // Check if operation was cancelled
-    if (onCancel && onCancel()) {
-      console.log("Polling cancelled by user");
-      return false;
-    }
-
-    const res = await fetch(
-      `https://photospicker.googleapis.com/v1/sessions/${sessionId}`,
-      {
-        headers: {
-          Authorization: `Bearer ${oauthToken}`,
-        },
-      }
-    );
+// Google sends durations as seconds, such as "1799s" or "2.5s"
+export function parseDuration(value: unknown): number | null {
+  const match = typeof value === "string" && value.match(/^(\d+(\.\d+)?)s$/);
+  return match ? Number(match[1]) * 1000 : null;
+}
 
-    if (!res.ok) {
+// Waits for the photos to be picked, following the polling interval and
+// timeout Google asks for. fetchSession gets the picker session, the web app
+// and the CLI reach the API differently. False when the session times out or
+// onCancel returns true.
+export async function waitForPicking(
+  fetchSession: () => Promise<Response>,
+  onCancel?: () => boolean
+): Promise<boolean> {
+  const fallbackDeadline = Date.now() + DEFAULT_PICK_TIMEOUT_MS;
+
+  while (!onCancel?.()) {
+    const response = await fetchSession();
+    if (!response.ok) {
       throw new Error(
-        `Failed to poll session '${sessionId}': ${res.status} ${res.statusText}`
+        `Failed to check the picker session: HTTP ${response.status}: ${response.statusText}`
       );
     }
 
-    const data = await res.json();
+    const session = await response.json();
+    if (session.mediaItemsSet) return true;
 
-    console.log("Polling response:", {
-      mediaItemsSet: data.mediaItemsSet,
-      pollingConfig: data.pollingConfig,
-    });
+    const remaining =
+      parseDuration(session.pollingConfig?.timeoutIn) ??
+      fallbackDeadline - Date.now();
+    if (remaining <= 0) return false;
 
-    // Check if user has finished selecting media
-    if (data.mediaItemsSet === true) {
-      return true;
-    }
-
-    // Update polling configuration if provided by the API, but enforce minimum
-    if (data.pollingConfig) {
-      if (data.pollingConfig.pollInterval) {
-        const apiInterval = Number(data.pollingConfig.pollInterval);
-        if (!isNaN(apiInterval) && apiInterval > 0) {
-          pollInterval = Math.max(apiInterval, minPollInterval);
-        } else {
-          console.warn(
-            "Invalid polling interval from API:",
-            data.pollingConfig.pollInterval,
-            "using default"
-          );
-          pollInterval = Math.max(pollInterval, minPollInterval);
-        }
-      }
-      if (data.pollingConfig.timeoutIn) {
-        const apiTimeout = Number(data.pollingConfig.timeoutIn);
-        if (!isNaN(apiTimeout) && apiTimeout > 0) {
-          totalTimeout = apiTimeout;
-        } else {
-          console.warn(
-            "Invalid timeout from API:",
-            data.pollingConfig.timeoutIn,
-            "using default"
-          );
-        }
-      }
-    }
-
-    // Ensure pollInterval is always a valid number
-    if (isNaN(pollInterval) || pollInterval <= 0) {
-      console.warn(
-        "Invalid pollInterval detected:",
-        pollInterval,
-        "resetting to minimum"
-      );
-      pollInterval = minPollInterval;
-    }
-
-    console.log(`Polling in ${pollInterval}ms...`);
-
-    // Wait before next poll
-    await new Promise((resolve) => setTimeout(resolve, pollInterval));
-    elapsed += pollInterval;
+    const interval = Math.max(
+      parseDuration(session.pollingConfig?.pollInterval) ??
+        DEFAULT_POLL_INTERVAL_MS,
+      MIN_POLL_INTERVAL_MS
+    );
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(interval, remaining))
+    );
+  }
+  return false;
+}
 
-    // Check cancellation again after the wait
-    if (onCancel && onCancel()) {
-      console.log("Polling cancelled by user during wait");
-      return false;
-    }
+export async function pollSession({
+  oauthToken,
+  sessionId,
+  onCancel,
+}: {
+  oauthToken: string | null;
+  sessionId: string;
+  onCancel?: () => boolean; // Function that returns true if polling should be cancelled
+}) {
+  if (!sessionId) {
+    throw new Error("Missing sessionId for pollSession");
   }
 
-  return false; // Timed out
+  return waitForPicking(
+    () => pickerFetch(`/sessions/${sessionId}`, oauthToken),
+    onCancel
+  );
 }
 
 export async function fetchPickedMediaItems({
@@ -151,7 +120,7 @@ export async function fetchPickedMediaItems({
   sessionId,
   onProgress,
 }: {
-  oauthToken: string;
+  oauthToken: string | null;
   sessionId: string;
   onProgress?: (progress: {
     currentPage: number;
@@ -159,10 +128,8 @@ export async function fetchPickedMediaItems({
     isComplete: boolean;
   }) => void;
 }) {
-  if (!oauthToken || !sessionId) {
-    throw new Error(
-      `Missing oauthToken or sessionId for fetchPickedMediaItems - oauthToken: ${!!oauthToken}, sessionId: ${!!sessionId}`
-    );
+  if (!sessionId) {
+    throw new Error("Missing sessionId for fetchPickedMediaItems");
   }
 
   const allMediaItems: MediaItem[] = [];
@@ -181,18 +148,14 @@ export async function fetchPickedMediaItems({
     });
 
     // Build URL with pagination parameters
-    const url = new URL("https://photospicker.googleapis.com/v1/mediaItems");
-    url.searchParams.set("sessionId", sessionId);
-    url.searchParams.set("pageSize", "100"); // Maximum allowed page size
+    const params = new URLSearchParams();
+    params.set("sessionId", sessionId);
+    params.set("pageSize", "100"); // Maximum allowed page size
     if (pageToken) {
-      url.searchParams.set("pageToken", pageToken);
+      params.set("pageToken", pageToken);
     }
 
-    const res = await fetch(url.toString(), {
-      headers: {
-        Authorization: `Bearer ${oauthToken}`,
-      },
-    });
+    const res = await pickerFetch(`/mediaItems?${params}`, oauthToken);
 
     if (!res.ok) {
       throw new Error(
@@ -0,0 +1,210 @@
+import { useState, useEffect, useRef } from "react";
+import {
+  deleteProfile,
+  exportProfiles,
+  listProfiles,
+  parseProfileExport,
+  saveProfile,
+} from "./profiles";
+import type { SyncProfile } from "./types";
+
+interface ProfileBarProps {
+  activeProfile: SyncProfile | null;
+  // What saving would store, null until a destination and settings are chosen
+  currentSetup: Omit<SyncProfile, "id" | "name"> | null;
+  onProfileSelected: (profile: SyncProfile | null) => void;
+  // The saved profile becomes the active one without being applied again
+  onProfileSaved: (profile: SyncProfile) => void;
+  disabled?: boolean;
+}
+
+const buttonStyle = {
+  padding: "6px 12px",
+  fontSize: "13px",
+  color: "#333",
+  backgroundColor: "white",
+  border: "1px solid #ccc",
+  borderRadius: "6px",
+  cursor: "pointer",
+};
+
+export default function ProfileBar({
+  activeProfile,
+  currentSetup,
+  onProfileSelected,
+  onProfileSaved,
+  disabled = false,
+}: ProfileBarProps) {
+  const [profiles, setProfiles] = useState<SyncProfile[]>([]);
+  const [status, setStatus] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadProfiles = () =>
+    listProfiles()
+      .then(setProfiles)
+      .catch((error) => console.warn("Could not load sync profiles:", error));
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const handleSelectProfile = (id: string) => {
+    onProfileSelected(profiles.find((profile) => profile.id === id) ?? null);
+    setStatus("");
+  };
+
+  const handleSaveProfile = async () => {
+    if (!currentSetup) return;
+
+    const name = window
+      .prompt("Name this profile:", activeProfile?.name)
+      ?.trim();
+    if (!name) return;
+
+    // Saving under an existing name updates that profile
+    const existing = profiles.find((profile) => profile.name === name);
+    const profile: SyncProfile = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name,
+      ...currentSetup,
+    };
+    try {
+      await saveProfile(profile);
+      await loadProfiles();
+      onProfileSaved(profile);
+      setStatus(`✅ Saved ${name}`);
+    } catch (error) {
+      console.error("Profile save error:", error);
+      setStatus(`Error saving ${name}: ${error}`);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!activeProfile) return;
+    if (!window.confirm(`Delete the profile ${activeProfile.name}?`)) return;
+
+    try {
+      await deleteProfile(activeProfile.id);
+      await loadProfiles();
+      onProfileSelected(null);
+      setStatus(`Deleted ${activeProfile.name}`);
+    } catch (error) {
+      console.error("Profile delete error:", error);
+      setStatus(`Error deleting ${activeProfile.name}: ${error}`);
+    }
+  };
+
+  const handleExportProfiles = () => {
+    const blob = new Blob([exportProfiles(profiles)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "google-photos-sync-profiles.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportProfiles = async (file: File) => {
+    try {
+      const imported = parseProfileExport(await file.text());
+      for (const profile of imported) await saveProfile(profile);
+      await loadProfiles();
+      setStatus(
+        `✅ Imported ${imported.length} profiles. Profiles that saved into a folder on someone else's computer need a directory chosen again.`
+      );
+    } catch (error) {
+      console.error("Profile import error:", error);
+      setStatus(`Error importing ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        width: "100%",
+        maxWidth: "600px",
+        marginBottom: 15,
+        padding: "12px 16px",
+        border: "1px solid #e0e0e0",
+        borderRadius: "8px",
+        backgroundColor: "#fff",
+        boxShadow: "0 2px 8px rgba(0,0,0,0.1)",
+        fontSize: "14px",
+        color: "#666",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: "8px",
+        }}
+      >
+        <label htmlFor="sync-profile">🗂️ Profile:</label>
+        <select
+          id="sync-profile"
+          value={activeProfile?.id ?? ""}
+          onChange={(e) => handleSelectProfile(e.target.value)}
+          disabled={disabled}
+        >
+          <option value="">No profile</option>
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleSaveProfile}
+          disabled={disabled || !currentSetup}
+          title={
+            currentSetup
+              ? "Save the destination and settings as a profile"
+              : "Choose a directory and confirm the settings first"
+          }
+          style={buttonStyle}
+        >
+          💾 Save as profile
+        </button>
+        {activeProfile && (
+          <button
+            onClick={handleDeleteProfile}
+            disabled={disabled}
+            style={buttonStyle}
+          >
+            🗑️ Delete
+          </button>
+        )}
+        <button
+          onClick={handleExportProfiles}
+          disabled={disabled || profiles.length === 0}
+          style={buttonStyle}
+        >
+          📤 Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          style={buttonStyle}
+        >
+          📥 Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImportProfiles(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {status && <div style={{ marginTop: "8px" }}>{status}</div>}
+    </div>
+  );
+}
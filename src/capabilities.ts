@@ -0,0 +1,42 @@
+// What the browser can do with local files, checked once at startup. Saving
+// straight into a directory needs all of it, other browsers download a ZIP.
+
+export interface BrowserCapabilities {
+  directoryPicker: boolean; // window.showDirectoryPicker
+  permissionRequests: boolean; // FileSystemHandle.requestPermission
+  writableStreams: boolean; // FileSystemFileHandle.createWritable
+}
+
+const capabilityNames: Record<keyof BrowserCapabilities, string> = {
+  directoryPicker: "picking a folder",
+  permissionRequests: "asking for write access",
+  writableStreams: "writing files",
+};
+
+export function detectBrowserCapabilities(): BrowserCapabilities {
+  return {
+    directoryPicker: "showDirectoryPicker" in window,
+    permissionRequests:
+      "FileSystemHandle" in window &&
+      "requestPermission" in FileSystemHandle.prototype,
+    writableStreams:
+      "FileSystemFileHandle" in window &&
+      "createWritable" in FileSystemFileHandle.prototype,
+  };
+}
+
+export function canSaveToDirectory(capabilities: BrowserCapabilities): boolean {
+  return Object.values(capabilities).every(Boolean);
+}
+
+// What is missing, e.g. "picking a folder and writing files"
+export function describeMissingCapabilities(
+  capabilities: BrowserCapabilities
+): string {
+  const missing = (Object.keys(capabilities) as (keyof BrowserCapabilities)[])
+    .filter((capability) => !capabilities[capability])
+    .map((capability) => capabilityNames[capability]);
+  return missing.length > 1
+    ? `${missing.slice(0, -1).join(", ")} and ${missing[missing.length - 1]}`
+    : missing.join("");
+}
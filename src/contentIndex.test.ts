@@ -0,0 +1,67 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import {
+  addExistingFile,
+  copyContentIndex,
+  createContentIndex,
+  hashFilesOfSize,
+  isIndexedFile,
+} from "./contentIndex";
+import type { ManifestEntry } from "./types";
+
+describe("addExistingFile", () => {
+  test("reuses the manifest's hash while the size matches", () => {
+    const index = createContentIndex();
+    const entry = { filename: "a.jpg", size: 10, sha256: "abc" };
+    addExistingFile(index, "a.jpg", 10, entry as ManifestEntry);
+    addExistingFile(index, "b.jpg", 12, {
+      ...entry,
+      filename: "b.jpg",
+    } as ManifestEntry);
+
+    expect(index.hashes.get("abc")).toBe("a.jpg");
+    expect(index.unread.get(12)).toEqual(["b.jpg"]);
+  });
+});
+
+describe("hashFilesOfSize", () => {
+  test("only reads files of the downloaded size, once", async () => {
+    const index = createContentIndex();
+    addExistingFile(index, "small.jpg", 10);
+    addExistingFile(index, "large.jpg", 20);
+    addExistingFile(index, "other.jpg", 20);
+    const read: string[] = [];
+    const hashFile = async (path: string) => {
+      read.push(path);
+      return `hash-of-${path}`;
+    };
+
+    await Promise.all([
+      hashFilesOfSize(index, 20, hashFile),
+      hashFilesOfSize(index, 20, hashFile),
+    ]);
+
+    expect(read).toEqual(["large.jpg", "other.jpg"]);
+    expect(index.hashes.get("hash-of-other.jpg")).toBe("other.jpg");
+    expect(index.unread.get(10)).toEqual(["small.jpg"]);
+  });
+
+  test("leaves out files that can't be read", async () => {
+    spyOn(console, "warn").mockImplementation(() => {});
+    const index = createContentIndex();
+    addExistingFile(index, "gone.jpg", 10);
+    await hashFilesOfSize(index, 10, () => Promise.reject(new Error("gone")));
+    expect(index.hashes.size).toBe(0);
+  });
+});
+
+test("copies don't change the original", () => {
+  const index = createContentIndex();
+  copyContentIndex(index).hashes.set("abc", "a.jpg");
+  expect(index.hashes.size).toBe(0);
+});
+
+test("sidecars aren't indexed", () => {
+  expect(isIndexedFile("photo.jpg")).toBe(true);
+  expect(isIndexedFile("photo.jpg.json")).toBe(false);
+  expect(isIndexedFile("photo.PNG.XMP")).toBe(false);
+});
@@ -0,0 +1,69 @@
+import type { ContentIndex, ManifestEntry } from "./types";
+
+// Spotting files whose content is already in the destination. Only files the
+// same size as a downloaded one can hold the same content, so the rest are
+// never read. The browser and the server fill the index from their own files.
+
+// Sidecars describe a photo rather than being one
+const SIDECAR_EXTENSIONS = [".json", ".xmp"];
+
+export function createContentIndex(): ContentIndex {
+  return { hashes: new Map(), unread: new Map(), reads: new Map() };
+}
+
+// A copy that can be added to without changing the original
+export function copyContentIndex(index: ContentIndex): ContentIndex {
+  return {
+    hashes: new Map(index.hashes),
+    unread: new Map(index.unread),
+    reads: new Map(index.reads),
+  };
+}
+
+export function isIndexedFile(path: string): boolean {
+  const lowerPath = path.toLowerCase();
+  return !SIDECAR_EXTENSIONS.some((extension) => lowerPath.endsWith(extension));
+}
+
+// Record a file found in the destination, reusing the hash from its manifest
+// entry when the file's size hasn't changed since it was saved
+export function addExistingFile(
+  index: ContentIndex,
+  path: string,
+  size: number,
+  entry?: ManifestEntry
+) {
+  if (entry?.sha256 && entry.size === size) {
+    if (!index.hashes.has(entry.sha256)) index.hashes.set(entry.sha256, path);
+    return;
+  }
+  index.unread.set(size, [...(index.unread.get(size) ?? []), path]);
+}
+
+// Hash the files that are as big as a downloaded one, so looking its hash up
+// in index.hashes finds them. Files that can't be read are left out.
+export async function hashFilesOfSize(
+  index: ContentIndex,
+  size: number,
+  hashFile: (path: string) => Promise<string>
+) {
+  const paths = index.unread.get(size);
+  if (paths && !index.reads.has(size)) {
+    index.unread.delete(size);
+    index.reads.set(
+      size,
+      (async () => {
+        for (const path of paths) {
+          try {
+            const sha256 = await hashFile(path);
+            if (!index.hashes.has(sha256)) index.hashes.set(sha256, path);
+          } catch (error) {
+            console.warn(`Could not read ${path} to compare it:`, error);
+          }
+        }
+      })()
+    );
+  }
+  // Parallel downloads of the same size wait for the one read
+  await index.reads.get(size);
+}
@@ -0,0 +1,42 @@
+// The app's IndexedDB database. Browsers let directory handles be stored
+// there, which localStorage can't hold.
+
+const DATABASE_NAME = "google-photos-sync";
+const DATABASE_VERSION = 2;
+
+export const DIRECTORY_STORE = "directories"; // Recently picked directories
+export const PROFILE_STORE = "profiles"; // Named sync profiles
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    const database = request.result;
+    for (const storeName of [DIRECTORY_STORE, PROFILE_STORE]) {
+      if (!database.objectStoreNames.contains(storeName)) {
+        database.createObjectStore(storeName, { keyPath: "id" });
+      }
+    }
+  };
+  return requestResult(request);
+}
+
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  try {
+    const transaction = database.transaction(storeName, mode);
+    return await requestResult(makeRequest(transaction.objectStore(storeName)));
+  } finally {
+    database.close();
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createManifestEntry,
+  emptyManifest,
+  mergeManifest,
+  parseManifest,
+  serializeManifest,
+} from "./manifest";
+import type { DownloadedFile, MediaItem } from "./types";
+
+const item = {
+  id: "item-1",
+  type: "PHOTO",
+  createTime: "2024-05-01T14:30:22Z",
+  mediaFile: { filename: "IMG_1.jpg", baseUrl: "", mimeType: "image/jpeg" },
+} as MediaItem;
+
+const file: DownloadedFile = {
+  itemId: "item-1",
+  filename: "2024/IMG_1.jpg",
+  size: 1234,
+  ready: true,
+  sha256: "abc",
+};
+
+describe("parseManifest", () => {
+  test("reads back a serialized manifest", () => {
+    const manifest = mergeManifest(emptyManifest(), {
+      [item.id]: createManifestEntry(item, file),
+    });
+    expect(parseManifest(serializeManifest(manifest))).toEqual(manifest);
+  });
+
+  test("treats unreadable or unknown manifests as empty", () => {
+    expect(parseManifest("not json")).toEqual(emptyManifest());
+    expect(parseManifest('{"version":2,"items":{}}')).toEqual(emptyManifest());
+  });
+});
+
+describe("createManifestEntry", () => {
+  test("records where the item was saved and what it was", () => {
+    expect(createManifestEntry(item, file)).toMatchObject({
+      filename: "2024/IMG_1.jpg",
+      originalFilename: "IMG_1.jpg",
+      createTime: item.createTime,
+      size: 1234,
+      sha256: "abc",
+    });
+  });
+
+  test("points duplicates at the copy that was kept", () => {
+    const duplicate = { ...file, duplicateOf: "older/IMG_1.jpg" };
+    expect(createManifestEntry(item, duplicate).filename).toBe(
+      "older/IMG_1.jpg"
+    );
+  });
+});
+
+test("mergeManifest replaces entries for the same item", () => {
+  const first = createManifestEntry(item, file);
+  const second = { ...first, filename: "renamed.jpg" };
+  const manifest = mergeManifest(
+    mergeManifest(emptyManifest(), { [item.id]: first }),
+    { [item.id]: second }
+  );
+  expect(manifest.items).toEqual({ [item.id]: second });
+});
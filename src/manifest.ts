@@ -0,0 +1,60 @@
+import type {
+  DownloadSettings,
+  DownloadedFile,
+  ManifestEntry,
+  MediaItem,
+  SyncManifest,
+} from "./types";
+
+// The sync manifest lives in the root of the destination directory. It is read
+// and written by the browser for directories it saves to, and by the server
+// for its output directory.
+
+export const MANIFEST_FILENAME = ".google-photos-sync.json";
+
+// Saved files to collect before writing the manifest again
+export const MANIFEST_FLUSH_INTERVAL = 25;
+
+export function emptyManifest(): SyncManifest {
+  return { version: 1, items: {} };
+}
+
+// A missing or unreadable manifest counts as empty, it is rebuilt as files are saved
+export function parseManifest(text: string): SyncManifest {
+  try {
+    const manifest = JSON.parse(text);
+    if (manifest?.version === 1 && typeof manifest.items === "object") {
+      return manifest as SyncManifest;
+    }
+  } catch {
+    // Fall through to an empty manifest
+  }
+  return emptyManifest();
+}
+
+export function serializeManifest(manifest: SyncManifest): string {
+  return JSON.stringify(manifest, null, 2);
+}
+
+export function createManifestEntry(
+  item: MediaItem,
+  file: DownloadedFile,
+  settings?: DownloadSettings
+): ManifestEntry {
+  return {
+    filename: file.duplicateOf ?? file.filename,
+    originalFilename: item.mediaFile.filename,
+    createTime: item.createTime,
+    size: file.size,
+    sha256: file.sha256,
+    settings,
+    savedAt: new Date().toISOString(),
+  };
+}
+
+export function mergeManifest(
+  manifest: SyncManifest,
+  entries: Record<string, ManifestEntry>
+): SyncManifest {
+  return { ...manifest, items: { ...manifest.items, ...entries } };
+}
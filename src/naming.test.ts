@@ -0,0 +1,149 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getFilename,
+  getFolderPath,
+  isSafeTargetPath,
+  planTargetPaths,
+  validateFolderTemplate,
+  validateRenameTemplate,
+} from "./naming";
+import { emptyManifest, mergeManifest } from "./manifest";
+import type { ManifestEntry, MediaItem } from "./types";
+
+function photo(id: string, filename: string, createTime: string): MediaItem {
+  return {
+    id,
+    type: "PHOTO",
+    createTime,
+    mediaFile: { filename, baseUrl: "", mimeType: "image/jpeg" },
+  } as MediaItem;
+}
+
+describe("templates", () => {
+  test("accept named tokens and date patterns", () => {
+    expect(validateFolderTemplate("{type}/{yyyy}/{yyyy-MM-dd}")).toBeNull();
+    expect(
+      validateRenameTemplate("{yyyy-MM-dd}_{HHmmss}_{name}{ext}")
+    ).toBeNull();
+  });
+
+  test("reject tokens that aren't made of date patterns", () => {
+    expect(validateFolderTemplate("{mmm}")).toBe("Unknown token {mmm}");
+    expect(validateRenameTemplate("{MMx}")).toBe("Unknown token {MMx}");
+    expect(validateRenameTemplate("{size}")).toBe("Unknown token {size}");
+  });
+
+  test("reject unbalanced braces and misplaced separators", () => {
+    expect(validateFolderTemplate("{yyyy")).toBe("Every { needs a matching }");
+    expect(validateFolderTemplate("{yyyy}\\{MM}")).toBe(
+      "Separate folders with /"
+    );
+    expect(validateRenameTemplate("{yyyy}/{name}")).toBe(
+      "Use the folder template for folders"
+    );
+  });
+
+  test("expand dates in UTC", () => {
+    const item = photo("abcdef123456", "IMG_1.JPG", "2024-05-01T14:30:22Z");
+    expect(getFolderPath(item, "{type}/{yyyy}/{MM}")).toBe("photos/2024/05");
+    expect(getFilename(item, "{yyyy-MM-dd}_{HHmmss}_{name}{ext}")).toBe(
+      "2024-05-01_143022_IMG_1.jpg"
+    );
+  });
+});
+
+test("names lose characters file systems don't allow", () => {
+  const item = photo(
+    "abcdef123456",
+    'a<b>:"c|?*\u0001.jpg',
+    "2024-05-01T00:00:00Z"
+  );
+  expect(getFilename(item, "{name}{ext}")).toBe("a_b___c____.jpg");
+});
+
+describe("planTargetPaths", () => {
+  // Picked newest first, the oldest keeps the name whatever the order
+  const clashing = [
+    photo("AF1QipBBBBBBBBBB", "IMG_1.jpg", "2024-05-02T00:00:00Z"),
+    photo("AF1QipAAAAAAAAAA", "img_1.JPG", "2024-05-01T00:00:00Z"),
+  ];
+  const targetPaths = (items: MediaItem[]) =>
+    items.map(({ targetPath }) => targetPath);
+
+  test("suffixes a number by default", () => {
+    const { items, skipped } = planTargetPaths(clashing);
+    expect(targetPaths(items)).toEqual(["IMG_1 (2).jpg", "img_1.JPG"]);
+    expect(skipped).toEqual([]);
+  });
+
+  test("suffixes the end of the id", () => {
+    const { items } = planTargetPaths(clashing, {
+      collisionStrategy: "id-suffix",
+    });
+    expect(targetPaths(items)).toEqual(["IMG_1_BBBBBBBBBB.jpg", "img_1.JPG"]);
+  });
+
+  test("skips the newer items", () => {
+    const { items, skipped } = planTargetPaths(clashing, {
+      collisionStrategy: "skip",
+    });
+    expect(targetPaths(items)).toEqual(["img_1.JPG"]);
+    expect(skipped.map(({ id }) => id)).toEqual(["AF1QipBBBBBBBBBB"]);
+  });
+
+  test("numbers {counter} per folder in the order items were taken", () => {
+    const { items } = planTargetPaths(clashing, {
+      renameTemplate: "{yyyy}_{counter}{ext}",
+    });
+    expect(targetPaths(items)).toEqual(["2024_0002.jpg", "2024_0001.jpg"]);
+  });
+});
+
+describe("planTargetPaths with a manifest", () => {
+  const entry = (
+    filename: string,
+    originalFilename: string
+  ): ManifestEntry => ({
+    filename,
+    originalFilename,
+    createTime: "2024-05-01T00:00:00Z",
+    size: 1,
+    savedAt: "2024-05-02T00:00:00Z",
+  });
+
+  test("keeps the name recorded items were saved under", () => {
+    const manifest = mergeManifest(emptyManifest(), {
+      "old-id": entry("renamed.jpg", "IMG_1.jpg"),
+    });
+    // Google may hand out a new id, the name and time still match
+    const { items } = planTargetPaths(
+      [photo("new-id", "IMG_1.jpg", "2024-05-01T00:00:00Z")],
+      undefined,
+      manifest
+    );
+    expect(items[0].targetPath).toBe("renamed.jpg");
+  });
+
+  test("doesn't give new items the name of a recorded file", () => {
+    const manifest = mergeManifest(emptyManifest(), {
+      "other-id": entry("IMG_1.jpg", "IMG_9.jpg"),
+    });
+    const { items } = planTargetPaths(
+      [photo("new-id", "IMG_1.jpg", "2024-06-01T00:00:00Z")],
+      undefined,
+      manifest
+    );
+    expect(items[0].targetPath).toBe("IMG_1 (2).jpg");
+  });
+});
+
+test("isSafeTargetPath", () => {
+  expect(isSafeTargetPath("2024/05/IMG_1.jpg")).toBe(true);
+  expect(isSafeTargetPath("..photos/IMG_1.jpg")).toBe(true);
+  expect(isSafeTargetPath("../IMG_1.jpg")).toBe(false);
+  expect(isSafeTargetPath("2024/../../IMG_1.jpg")).toBe(false);
+  expect(isSafeTargetPath("/IMG_1.jpg")).toBe(false);
+  expect(isSafeTargetPath("2024//IMG_1.jpg")).toBe(false);
+  expect(isSafeTargetPath("2024\\IMG_1.jpg")).toBe(false);
+  expect(isSafeTargetPath("C:IMG_1.jpg")).toBe(false);
+});
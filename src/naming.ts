@@ -0,0 +1,326 @@
+import type { DestinationSettings, MediaItem, SyncManifest } from "./types";
+
+// Works out where each picked item is saved. The web app, the server and the
+// CLI all plan with this so they agree on the names.
+
+export const DEFAULT_COLLISION_STRATEGY = "suffix";
+
+// Google's ids share a long common prefix, the end is what tells them apart
+const SHORT_ID_LENGTH = 10;
+
+const COUNTER_DIGITS = 4;
+
+export const FOLDER_TEMPLATE_PRESETS = [
+  "{yyyy}/{MM}",
+  "{yyyy}/{yyyy-MM-dd}",
+  "{type}/{yyyy}",
+];
+
+export const RENAME_TEMPLATE_PRESETS = [
+  "{yyyy-MM-dd}_{HHmmss}_{name}{ext}",
+  "{yyyy-MM-dd}_{counter}{ext}",
+  "{name}_{id}{ext}",
+];
+
+// Named tokens templates can use, next to date patterns like {yyyy-MM-dd}
+const FOLDER_TOKENS = ["type"];
+const RENAME_TOKENS = ["name", "ext", "id", "counter"];
+
+// Extensions for the media types Google Photos serves, anything else keeps
+// the extension of its original filename
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/heic": ".heic",
+  "image/heif": ".heif",
+  "image/avif": ".avif",
+  "image/tiff": ".tif",
+  "image/bmp": ".bmp",
+  "image/x-adobe-dng": ".dng",
+  "video/mp4": ".mp4",
+  "video/quicktime": ".mov",
+  "video/3gpp": ".3gp",
+  "video/webm": ".webm",
+  "video/x-msvideo": ".avi",
+  "video/x-matroska": ".mkv",
+  "video/mpeg": ".mpg",
+};
+
+const TEMPLATE_TOKEN = /\{([^{}]*)\}/g;
+const DATE_PATTERN = /yyyy|yy|MM|dd|HH|mm|ss/g;
+const DATE_SEPARATORS = /^[-_. /]*$/; // What's left of a date token once its patterns are taken out
+
+function isDateToken(token: string): boolean {
+  return (
+    !!token.match(DATE_PATTERN) &&
+    !!token.replace(DATE_PATTERN, "").match(DATE_SEPARATORS)
+  );
+}
+
+// Dates are formatted in UTC, so the server and the browser always agree
+function formatDate(pattern: string, date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const parts: Record<string, string> = {
+    yyyy: String(date.getUTCFullYear()),
+    yy: String(date.getUTCFullYear()).slice(-2),
+    MM: pad(date.getUTCMonth() + 1),
+    dd: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return pattern.replace(DATE_PATTERN, (part) => parts[part]);
+}
+
+function expandTemplate(
+  template: string,
+  item: MediaItem,
+  tokens: Record<string, string>
+): string {
+  const date = new Date(item.createTime);
+  return template.replace(TEMPLATE_TOKEN, (_, token: string) => {
+    if (token in tokens) return tokens[token];
+    return isNaN(date.getTime()) ? "undated" : formatDate(token, date);
+  });
+}
+
+// Why a template can't be used, or null when it's fine
+function validateTemplate(template: string, tokens: string[]): string | null {
+  if (template.replace(TEMPLATE_TOKEN, "").match(/[{}]/)) {
+    return "Every { needs a matching }";
+  }
+  for (const [, token] of template.matchAll(TEMPLATE_TOKEN)) {
+    if (!tokens.includes(token) && !isDateToken(token)) {
+      return `Unknown token {${token}}`;
+    }
+  }
+  return null;
+}
+
+export function validateFolderTemplate(template: string): string | null {
+  if (template.includes("\\")) return "Separate folders with /";
+  return validateTemplate(template, FOLDER_TOKENS);
+}
+
+export function validateRenameTemplate(template: string): string | null {
+  if (template.match(/[/\\]/)) return "Use the folder template for folders";
+  return validateTemplate(template, RENAME_TOKENS);
+}
+
+// Characters Windows doesn't allow in names, along with control characters
+const INVALID_NAME_CHARACTERS = '<>:"\\|?*';
+
+function sanitizeSegment(segment: string): string {
+  let sanitized = "";
+  for (let i = 0; i < segment.length; i++) {
+    sanitized +=
+      segment.charCodeAt(i) < 32 || INVALID_NAME_CHARACTERS.includes(segment[i])
+        ? "_"
+        : segment[i];
+  }
+  return sanitized.replace(/[. ]+$/, "").trim();
+}
+
+// The folder an item goes in, relative to the destination ("" for the root)
+export function getFolderPath(item: MediaItem, template?: string): string {
+  if (!template) return "";
+
+  return expandTemplate(template, item, {
+    type: item.type === "VIDEO" ? "videos" : "photos",
+  })
+    .split("/")
+    .map(sanitizeSegment)
+    .filter((segment) => segment && segment !== "." && segment !== "..")
+    .join("/");
+}
+
+// The name an item is saved as, before any clash is resolved
+export function getFilename(
+  item: MediaItem,
+  template?: string,
+  counter = 1
+): string {
+  const { filename, mimeType } = item.mediaFile;
+  if (!template) return filename;
+
+  const [name, originalExtension] = splitExtension(filename);
+  const ext = MIME_EXTENSIONS[mimeType] ?? originalExtension.toLowerCase();
+  const renamed = expandTemplate(template, item, {
+    name,
+    ext,
+    id: item.id.slice(-SHORT_ID_LENGTH),
+    counter: String(counter).padStart(COUNTER_DIGITS, "0"),
+  });
+
+  // Files always keep an extension, even if the template leaves it out
+  const withExtension = template.includes("{ext}") ? renamed : renamed + ext;
+  return sanitizeSegment(withExtension.replace(/\//g, "_")) || filename;
+}
+
+// Target paths are relative and separated by /, so they can't leave the destination
+export function isSafeTargetPath(targetPath: string): boolean {
+  return (
+    !targetPath.includes("\\") &&
+    !/^[a-zA-Z]:/.test(targetPath) &&
+    targetPath
+      .split("/")
+      .every((segment) => segment && segment !== "." && segment !== "..")
+  );
+}
+
+// Works on paths too, the extension is only looked for in the last segment
+export function splitExtension(filename: string): [string, string] {
+  const dot = filename.lastIndexOf(".");
+  return dot > filename.lastIndexOf("/") + 1
+    ? [filename.slice(0, dot), filename.slice(dot)]
+    : [filename, ""];
+}
+
+// Windows and macOS file systems ignore case, so names that only differ in
+// case would still overwrite each other
+function nameKey(path: string) {
+  return path.toLowerCase();
+}
+
+function byCreateTime(a: MediaItem, b: MediaItem) {
+  if (a.createTime !== b.createTime) {
+    return a.createTime < b.createTime ? -1 : 1;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// Where an item is saved when nothing clashes with it
+function getPreferredPath(
+  item: MediaItem,
+  settings?: DestinationSettings,
+  counter?: number
+) {
+  const folder = getFolderPath(item, settings?.folderTemplate);
+  const filename = getFilename(item, settings?.renameTemplate, counter);
+  return folder ? `${folder}/${filename}` : filename;
+}
+
+// Photos are matched to manifest entries by id, or by their original name
+// and the time they were taken in case Google hands out a different id
+function originalKey(filename: string, createTime: string) {
+  return `${filename}\n${createTime}`;
+}
+
+// Sets targetPath on every item. Items in the destination's sync manifest keep
+// the path they were saved under. When several new items share a path the
+// oldest keeps it, so re-syncing the same selection gives the same names, and
+// the others are renamed or skipped depending on the collision strategy.
+export function planTargetPaths(
+  mediaItems: MediaItem[],
+  settings?: DestinationSettings,
+  manifest?: SyncManifest
+): { items: MediaItem[]; skipped: MediaItem[] } {
+  const strategy = settings?.collisionStrategy ?? DEFAULT_COLLISION_STRATEGY;
+  const recorded = manifest?.items ?? {};
+  const recordedByOriginal = new Map(
+    Object.values(recorded)
+      .filter((entry) => entry.originalFilename)
+      .map((entry) => [
+        originalKey(entry.originalFilename!, entry.createTime),
+        entry,
+      ])
+  );
+
+  const targetPaths = new Map<string, string>();
+  const newItems: MediaItem[] = [];
+  for (const item of mediaItems) {
+    if (!item.mediaFile?.filename) continue;
+
+    const entry =
+      recorded[item.id] ??
+      recordedByOriginal.get(
+        originalKey(item.mediaFile.filename, item.createTime)
+      );
+    if (entry) {
+      targetPaths.set(item.id, entry.filename);
+    } else {
+      newItems.push(item);
+    }
+  }
+
+  // Recorded files belong to other photos, so new items can't take their names
+  const recordedNames = new Set(
+    Object.values(recorded).map((entry) => nameKey(entry.filename))
+  );
+  const taken = new Set(recordedNames);
+  const skippedIds = new Set<string>();
+
+  if (settings?.renameTemplate?.includes("{counter}")) {
+    // {counter} numbers new items per folder in the order they were taken,
+    // skipping numbers that are already used, so they never clash
+    const counters = new Map<string, number>();
+    for (const item of newItems.sort(byCreateTime)) {
+      const folder = getFolderPath(item, settings.folderTemplate);
+      let counter = counters.get(folder) ?? 1;
+      while (taken.has(nameKey(getPreferredPath(item, settings, counter)))) {
+        counter++;
+      }
+
+      const targetPath = getPreferredPath(item, settings, counter);
+      taken.add(nameKey(targetPath));
+      targetPaths.set(item.id, targetPath);
+      counters.set(folder, counter + 1);
+    }
+  } else {
+    const groups = new Map<string, MediaItem[]>();
+    for (const item of newItems) {
+      const preferredPath = getPreferredPath(item, settings);
+      const group = groups.get(nameKey(preferredPath)) ?? [];
+      group.push(item);
+      groups.set(nameKey(preferredPath), group);
+    }
+
+    // Every preferred path is reserved too, so a renamed file can't take one
+    for (const key of groups.keys()) taken.add(key);
+
+    for (const group of groups.values()) {
+      group.sort(byCreateTime);
+
+      for (const [index, item] of group.entries()) {
+        const preferredPath = getPreferredPath(item, settings);
+        if (index === 0 && !recordedNames.has(nameKey(preferredPath))) {
+          targetPaths.set(item.id, preferredPath);
+          continue;
+        }
+
+        if (strategy === "skip") {
+          skippedIds.add(item.id);
+          continue;
+        }
+
+        const [base, extension] = splitExtension(preferredPath);
+        const candidate = (n: number) =>
+          strategy === "id-suffix"
+            ? `${base}_${item.id.slice(-SHORT_ID_LENGTH)}${
+                n > 1 ? ` (${n})` : ""
+              }${extension}`
+            : `${base} (${n})${extension}`;
+
+        let n = strategy === "id-suffix" ? 1 : 2;
+        while (taken.has(nameKey(candidate(n)))) n++;
+
+        taken.add(nameKey(candidate(n)));
+        targetPaths.set(item.id, candidate(n));
+      }
+    }
+  }
+
+  const items: MediaItem[] = [];
+  const skipped: MediaItem[] = [];
+  for (const item of mediaItems) {
+    if (skippedIds.has(item.id)) {
+      skipped.push(item);
+    } else {
+      const targetPath = targetPaths.get(item.id);
+      items.push(targetPath ? { ...item, targetPath } : item);
+    }
+  }
+  return { items, skipped };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import { exportProfiles, parseProfileExport } from "./profiles";
+import { DEFAULT_DOWNLOAD_SETTINGS } from "./settings";
+import type { SyncProfile } from "./types";
+
+const profile: SyncProfile = {
+  id: "1",
+  name: "Holidays",
+  destination: { kind: "archive" },
+  destinationSettings: { folderTemplate: "{yyyy}/{MM}" },
+  downloadSettings: {} as SyncProfile["downloadSettings"],
+};
+
+describe("parseProfileExport", () => {
+  test("reads exported profiles back with new ids", () => {
+    const [imported] = parseProfileExport(exportProfiles([profile]));
+    expect(imported.name).toBe("Holidays");
+    expect(imported.id).not.toBe(profile.id);
+    expect(imported.destinationSettings).toEqual(profile.destinationSettings);
+  });
+
+  test("fills in download settings missing from the file", () => {
+    const [imported] = parseProfileExport(
+      exportProfiles([
+        {
+          ...profile,
+          downloadSettings: {
+            imageQuality: "high",
+          } as SyncProfile["downloadSettings"],
+        },
+      ])
+    );
+    expect(imported.downloadSettings).toEqual({
+      ...DEFAULT_DOWNLOAD_SETTINGS,
+      imageQuality: "high",
+    });
+  });
+
+  test("skips profiles without download settings", () => {
+    const edited = JSON.stringify({
+      version: 1,
+      profiles: [
+        { name: "Empty", downloadSettings: null },
+        { name: "Holidays", downloadSettings: {} },
+      ],
+    });
+    expect(parseProfileExport(edited).map(({ name }) => name)).toEqual([
+      "Holidays",
+    ]);
+  });
+
+  test("rejects profiles with invalid templates", () => {
+    const edited = exportProfiles([
+      { ...profile, destinationSettings: { renameTemplate: "{mmm}" } },
+    ]);
+    expect(() => parseProfileExport(edited)).toThrow(
+      "Holidays can't be imported. Rename template: Unknown token {mmm}"
+    );
+  });
+
+  test("rejects files that aren't profile exports", () => {
+    expect(() => parseProfileExport("nope")).toThrow("isn't valid JSON");
+    expect(() => parseProfileExport("{}")).toThrow("doesn't contain");
+  });
+});
@@ -0,0 +1,91 @@
+import { PROFILE_STORE, withStore } from "./database";
+import { validateFolderTemplate, validateRenameTemplate } from "./naming";
+import { DEFAULT_DOWNLOAD_SETTINGS } from "./settings";
+import type { DestinationSettings, ProfileExport, SyncProfile } from "./types";
+
+// Named sync profiles, stored in the browser and shared as JSON files
+
+export async function listProfiles(): Promise<SyncProfile[]> {
+  const profiles = await withStore<SyncProfile[]>(
+    PROFILE_STORE,
+    "readonly",
+    (store) => store.getAll()
+  );
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveProfile(profile: SyncProfile) {
+  await withStore(PROFILE_STORE, "readwrite", (store) => store.put(profile));
+}
+
+export async function deleteProfile(id: string) {
+  await withStore(PROFILE_STORE, "readwrite", (store) => store.delete(id));
+}
+
+export function exportProfiles(profiles: SyncProfile[]): string {
+  const exported: ProfileExport = {
+    version: 1,
+    profiles: profiles.map(({ name, destination, ...settings }) => ({
+      name,
+      ...settings,
+      destination: destination?.kind === "browser" ? undefined : destination,
+    })),
+  };
+  return JSON.stringify(exported, null, 2);
+}
+
+// Why a profile's naming templates can't be used, or null when they can.
+// Imported files may have been edited by hand.
+export function validateProfileTemplates({
+  folderTemplate,
+  renameTemplate,
+}: DestinationSettings): string | null {
+  const folderError = folderTemplate
+    ? validateFolderTemplate(folderTemplate)
+    : null;
+  if (folderError) return `Folder template: ${folderError}`;
+  const renameError = renameTemplate
+    ? validateRenameTemplate(renameTemplate)
+    : null;
+  return renameError ? `Rename template: ${renameError}` : null;
+}
+
+// Imported profiles get new ids, so importing twice never overwrites anything
+export function parseProfileExport(text: string): SyncProfile[] {
+  let exported: ProfileExport;
+  try {
+    exported = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON");
+  }
+  if (exported?.version !== 1 || !Array.isArray(exported.profiles)) {
+    throw new Error("The file doesn't contain sync profiles");
+  }
+
+  const profiles = exported.profiles.filter(
+    (profile) =>
+      typeof profile?.name === "string" &&
+      typeof profile.downloadSettings === "object" &&
+      profile.downloadSettings !== null
+  );
+  for (const profile of profiles) {
+    const error = validateProfileTemplates(profile.destinationSettings ?? {});
+    if (error) throw new Error(`${profile.name} can't be imported. ${error}`);
+  }
+
+  return profiles.map((profile) => ({
+    id: crypto.randomUUID(),
+    name: profile.name,
+    destination:
+      profile.destination?.kind === "server" ||
+      profile.destination?.kind === "archive"
+        ? profile.destination
+        : undefined,
+    destinationSettings: profile.destinationSettings ?? {},
+    // Settings added since the file was exported take their default value
+    downloadSettings: {
+      ...DEFAULT_DOWNLOAD_SETTINGS,
+      ...profile.downloadSettings,
+    },
+  }));
+}
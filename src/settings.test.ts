@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_DOWNLOAD_SETTINGS,
+  DOWNLOAD_SETTINGS_VERSION,
+  parseDownloadSettings,
+  serializeDownloadSettings,
+} from "./settings";
+
+describe("parseDownloadSettings", () => {
+  test("reads back serialized settings", () => {
+    const settings = {
+      ...DEFAULT_DOWNLOAD_SETTINGS,
+      imageQuality: "medium" as const,
+      concurrency: 8,
+    };
+    expect(parseDownloadSettings(serializeDownloadSettings(settings))).toEqual(
+      settings
+    );
+  });
+
+  test("fields added since the settings were saved take their default", () => {
+    const stored = JSON.stringify({
+      version: 1,
+      settings: { includeVideos: false },
+    });
+    expect(parseDownloadSettings(stored)).toEqual({
+      ...DEFAULT_DOWNLOAD_SETTINGS,
+      includeVideos: false,
+    });
+  });
+
+  test("settings from a newer release give the defaults", () => {
+    const stored = JSON.stringify({
+      version: DOWNLOAD_SETTINGS_VERSION + 1,
+      settings: { includeVideos: false },
+    });
+    expect(parseDownloadSettings(stored)).toEqual(DEFAULT_DOWNLOAD_SETTINGS);
+  });
+
+  test("missing or unreadable settings give the defaults", () => {
+    expect(parseDownloadSettings(null)).toEqual(DEFAULT_DOWNLOAD_SETTINGS);
+    expect(parseDownloadSettings("{")).toEqual(DEFAULT_DOWNLOAD_SETTINGS);
+    expect(parseDownloadSettings('{"version":1}')).toEqual(
+      DEFAULT_DOWNLOAD_SETTINGS
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import type { DownloadSettings, StoredDownloadSettings } from "./types";
+
+// The last confirmed download settings are remembered, in localStorage by the
+// web app and by the server for jobs that arrive without any. They are saved
+// with a version, so settings saved by an older release can be brought up to date.
+
+export const DOWNLOAD_SETTINGS_VERSION = 1;
+
+// The most files one job downloads in parallel
+export const MAX_CONCURRENCY = 16;
+
+export const DEFAULT_DOWNLOAD_SETTINGS: DownloadSettings = {
+  includePhotos: true,
+  includeVideos: true,
+  imageQuality: "original",
+  imageCrop: false,
+  videoQuality: "original",
+  videoRemoveOverlay: false,
+};
+
+// Each entry upgrades settings saved at that version to the next one. Fields
+// that were only added don't need one, they take their default value.
+const MIGRATIONS: Record<
+  number,
+  (settings: Record<string, unknown>) => Record<string, unknown>
+> = {};
+
+export function serializeDownloadSettings(settings: DownloadSettings): string {
+  const stored: StoredDownloadSettings = {
+    version: DOWNLOAD_SETTINGS_VERSION,
+    settings,
+  };
+  return JSON.stringify(stored);
+}
+
+// Missing or unreadable settings, and settings saved by a newer release, give
+// the defaults
+export function parseDownloadSettings(text: string | null): DownloadSettings {
+  try {
+    const stored = JSON.parse(text ?? "");
+    let { version, settings } = stored ?? {};
+    if (
+      Number.isInteger(version) &&
+      version >= 1 &&
+      version <= DOWNLOAD_SETTINGS_VERSION &&
+      typeof settings === "object" &&
+      settings
+    ) {
+      for (; version < DOWNLOAD_SETTINGS_VERSION; version++) {
+        settings = MIGRATIONS[version](settings);
+      }
+      return { ...DEFAULT_DOWNLOAD_SETTINGS, ...settings };
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return { ...DEFAULT_DOWNLOAD_SETTINGS };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, test } from "bun:test";
+import { createHash } from "crypto";
+import { Sha256Hasher } from "./sha256";
+
+function hashInChunks(data: Uint8Array, chunkSize: number): string {
+  const hasher = new Sha256Hasher();
+  for (let offset = 0; offset < data.length; offset += chunkSize) {
+    hasher.update(data.subarray(offset, offset + chunkSize));
+  }
+  return hasher.digest();
+}
+
+describe("Sha256Hasher", () => {
+  test("hashes empty input", () => {
+    expect(new Sha256Hasher().digest()).toBe(
+      "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"
+    );
+  });
+
+  test("matches node's digest whatever the chunk size", () => {
+    // Lengths either side of the padding and block boundaries
+    for (const length of [3, 55, 56, 63, 64, 65, 1000]) {
+      const data = Uint8Array.from({ length }, (_, i) => (i * 31) % 256);
+      const expected = createHash("sha256").update(data).digest("hex");
+      for (const chunkSize of [1, 7, 64, 4096]) {
+        expect(hashInChunks(data, chunkSize)).toBe(expected);
+      }
+    }
+  });
+});
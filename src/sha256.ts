@@ -0,0 +1,119 @@
+// SHA-256 that takes its input a chunk at a time, so files can be hashed as
+// they stream instead of being read into memory. WebCrypto only hashes whole
+// buffers.
+
+const ROUND_CONSTANTS = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const BLOCK_SIZE = 64;
+
+function rotateRight(word: number, bits: number): number {
+  return (word >>> bits) | (word << (32 - bits));
+}
+
+export class Sha256Hasher {
+  private state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ]);
+  private block = new Uint8Array(BLOCK_SIZE);
+  private blockLength = 0;
+  private totalLength = 0;
+  private words = new Uint32Array(64);
+
+  update(data: Uint8Array) {
+    this.totalLength += data.length;
+    let offset = 0;
+    while (offset < data.length) {
+      const length = Math.min(
+        BLOCK_SIZE - this.blockLength,
+        data.length - offset
+      );
+      this.block.set(data.subarray(offset, offset + length), this.blockLength);
+      this.blockLength += length;
+      offset += length;
+      if (this.blockLength === BLOCK_SIZE) {
+        this.compress();
+        this.blockLength = 0;
+      }
+    }
+  }
+
+  // Hex digest, the hasher can't be updated afterwards
+  digest(): string {
+    const bitLength = this.totalLength * 8;
+
+    // A 1 bit, zeros up to the last 8 bytes of a block, then the length
+    const paddingLength = (this.blockLength < 56 ? 56 : 120) - this.blockLength;
+    const padding = new Uint8Array(paddingLength + 8);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(paddingLength, Math.floor(bitLength / 2 ** 32));
+    view.setUint32(paddingLength + 4, bitLength >>> 0);
+    this.update(padding);
+
+    return Array.from(this.state, (word) =>
+      word.toString(16).padStart(8, "0")
+    ).join("");
+  }
+
+  private compress() {
+    const { block, words, state } = this;
+    for (let i = 0; i < 16; i++) {
+      words[i] =
+        (block[i * 4] << 24) |
+        (block[i * 4 + 1] << 16) |
+        (block[i * 4 + 2] << 8) |
+        block[i * 4 + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 =
+        rotateRight(words[i - 15], 7) ^
+        rotateRight(words[i - 15], 18) ^
+        (words[i - 15] >>> 3);
+      const s1 =
+        rotateRight(words[i - 2], 17) ^
+        rotateRight(words[i - 2], 19) ^
+        (words[i - 2] >>> 10);
+      words[i] = words[i - 16] + s0 + words[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + choice + ROUND_CONSTANTS[i] + words[i]) | 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + majority) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  }
+}
@@ -0,0 +1,61 @@
+import type { DownloadedFile, ItemSidecar, MediaItem } from "./types";
+
+// JSON sidecars keep each file's provenance next to it, for tools that ingest
+// them. They are written by the browser for directories it saves to, and by
+// the server for its output directory.
+
+export function getSidecarPath(filename: string): string {
+  return `${filename}.json`;
+}
+
+export function createSidecar(
+  item: MediaItem,
+  file: DownloadedFile
+): ItemSidecar {
+  const { filename, mimeType } = item.mediaFile;
+  return {
+    mediaItem: {
+      id: item.id,
+      createTime: item.createTime,
+      type: item.type,
+      mediaFile: { filename, mimeType },
+    },
+    filename: file.filename,
+    downloadParams: file.downloadParams,
+    size: file.size,
+    sha256: file.sha256,
+    savedAt: new Date().toISOString(),
+  };
+}
+
+export function serializeSidecar(sidecar: ItemSidecar): string {
+  return JSON.stringify(sidecar, null, 2);
+}
+
+// XMP sidecars carry the capture date of resized files that can't hold it
+// themselves. They are named after the whole filename, e.g. photo.png.xmp
+export function getXmpSidecarPath(filename: string): string {
+  return `${filename}.xmp`;
+}
+
+// Null when the createTime isn't a date
+export function createXmpSidecar(createTime: string): string | null {
+  const takenAt = new Date(createTime);
+  if (isNaN(takenAt.getTime())) return null;
+
+  const date = takenAt.toISOString().replace(/\.\d+Z$/, "Z");
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:exif="http://ns.adobe.com/exif/1.0/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"
+      exif:DateTimeOriginal="${date}"
+      xmp:CreateDate="${date}"
+      photoshop:DateCreated="${date}"/>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>
+`;
+}
@@ -9,8 +9,48 @@ export interface MediaItem {
   createTime: string;
   type: "PHOTO" | "VIDEO";
   mediaFile: MediaFile;
+  targetPath?: string; // Where the item is saved, relative to the destination
 }
 
+// Where downloaded files are saved: a directory picked in the browser, a
+// folder inside the server's output directory that the server writes to
+// itself, or a ZIP the browser downloads once the server has every file
+export type SaveDestination =
+  | { kind: "browser"; directory: FileSystemDirectoryHandle }
+  | { kind: "server"; folder: string; path: string }
+  | { kind: "archive" };
+
+// A directory picked before, kept in IndexedDB so it can be picked again
+export interface RecentDirectory {
+  id: string;
+  label: string; // The directory's name
+  handle: FileSystemDirectoryHandle;
+  lastUsed: number;
+}
+
+// A named destination with the settings to sync into it, kept in IndexedDB
+export interface SyncProfile {
+  id: string;
+  name: string;
+  destination?: SaveDestination;
+  destinationSettings: DestinationSettings;
+  downloadSettings: DownloadSettings;
+}
+
+// Profiles as shared between people. Browser directories can't be exported,
+// whoever imports a profile picks their own.
+export interface ProfileExport {
+  version: 1;
+  profiles: Array<
+    Omit<SyncProfile, "id" | "destination"> & {
+      destination?: Exclude<SaveDestination, { kind: "browser" }>;
+    }
+  >;
+}
+
+// What to do when two picked items would be saved under the same name
+export type CollisionStrategy = "suffix" | "id-suffix" | "skip";
+
 export interface DownloadSettings {
   // Media filtering
   includePhotos: boolean;
@@ -25,4 +65,155 @@ export interface DownloadSettings {
   // Video settings
   videoQuality: "original" | "high" | "thumbnail";
   videoRemoveOverlay: boolean;
+
+  // Number of files the server downloads in parallel (server default if unset)
+  concurrency?: number;
+
+  // Subfolders built from each item's date and type, e.g. "{yyyy}/{MM}" (none if unset)
+  folderTemplate?: string;
+
+  // Filenames built from each item's date, name and id, e.g.
+  // "{yyyy-MM-dd}_{HHmmss}_{name}{ext}" (Google's filename if unset)
+  renameTemplate?: string;
+
+  // How clashing filenames are resolved ("suffix" if unset)
+  collisionStrategy?: CollisionStrategy;
+
+  // Don't keep files whose content is already in the destination under another name
+  skipDuplicateContent?: boolean;
+
+  // Write the capture date back into resized images, which lose their metadata
+  writeCaptureDate?: boolean;
+
+  // Save a <filename>.json with each item's metadata next to the file
+  writeSidecars?: boolean;
+}
+
+// Download settings as they are remembered between syncs
+export interface StoredDownloadSettings {
+  version: number;
+  settings: DownloadSettings;
+}
+
+// The download settings that decide where each file is saved. They are chosen
+// together with the directory, since they change which files already exist.
+export type DestinationSettings = Pick<
+  DownloadSettings,
+  | "folderTemplate"
+  | "renameTemplate"
+  | "collisionStrategy"
+  | "skipDuplicateContent"
+>;
+
+export type FailureCategory =
+  | "expired" // 403: the baseUrl is no longer valid
+  | "unauthorized" // 401: the OAuth token expired or was revoked
+  | "not-found"
+  | "throttled"
+  | "server"
+  | "network"
+  | "invalid" // The media item itself is unusable
+  | "unknown";
+
+export interface DownloadFailure {
+  itemId: string;
+  filename: string;
+  status: number | null;
+  attempts: number;
+  category: FailureCategory;
+  message: string;
+}
+
+export type JobStatus = "running" | "paused" | "cancelled" | "complete";
+
+// A file the server is downloading right now
+export interface ActiveFile {
+  itemId: string;
+  filename: string;
+  bytesReceived: number;
+  totalBytes: number | null;
+  attempt: number;
+}
+
+export interface DownloadedFile {
+  itemId: string;
+  filename: string;
+  size: number;
+  ready: boolean;
+  sha256?: string; // Hex digest of the content, unknown for jobs restored after a restart
+  duplicateOf?: string; // The same content was already saved under this name, so this copy wasn't kept
+  downloadParams?: string; // What followed the baseUrl, e.g. "d" or "w2048-h2048-c"
+  needsXmpSidecar?: boolean; // The capture date couldn't go in the file, the browser saving it writes an XMP sidecar
+}
+
+export interface DownloadProgress {
+  total: number;
+  downloaded: number;
+  failed: number;
+  activeFiles: ActiveFile[];
+  status: JobStatus;
+  isComplete: boolean; // True once the job has finished or been cancelled
+  errors: DownloadFailure[];
+  files: DownloadedFile[];
+}
+
+// Incremental updates pushed by the server's /api/progress/stream endpoint
+export type JobEvent =
+  | { type: "snapshot"; progress: DownloadProgress }
+  | { type: "item-started"; itemId: string; filename: string }
+  | {
+      type: "item-progress";
+      itemId: string;
+      bytesReceived: number;
+      totalBytes: number | null;
+      attempt: number;
+    }
+  | { type: "item-completed"; itemId: string; file: DownloadedFile }
+  | { type: "item-failed"; failure: DownloadFailure }
+  | { type: "item-stopped"; itemId: string } // Aborted by a pause
+  | { type: "status"; status: JobStatus }
+  | {
+      type: "job-complete";
+      status: JobStatus;
+      downloaded: number;
+      failed: number;
+    }
+  | { type: "removed" }; // The job and its files were cleaned up
+
+// One saved media item in a directory's sync manifest
+export interface ManifestEntry {
+  filename: string; // Relative to the directory the manifest is in
+  originalFilename?: string; // As reported by Google, before any rename template
+  createTime: string;
+  size: number;
+  sha256?: string;
+  settings?: DownloadSettings; // The settings it was downloaded with
+  savedAt: string;
+}
+
+// The content of files already in a destination, see contentIndex.ts
+export interface ContentIndex {
+  hashes: Map<string, string>; // SHA-256 → path in the destination
+  unread: Map<number, string[]>; // Paths of files not hashed yet, by size
+  reads: Map<number, Promise<void>>; // Sizes being hashed
+}
+
+// The hidden file that records which Google Photos items a directory already
+// has, keyed by MediaItem.id
+export interface SyncManifest {
+  version: 1;
+  items: Record<string, ManifestEntry>;
+}
+
+// Provenance of one saved file, written next to it as <filename>.json. The
+// baseUrl is left out since it stops working an hour after picking.
+export interface ItemSidecar {
+  mediaItem: Omit<MediaItem, "mediaFile" | "targetPath"> & {
+    mediaFile: Omit<MediaFile, "baseUrl">;
+  };
+  filename: string; // Relative to the destination
+  downloadParams?: string;
+  size: number;
+  sha256?: string;
+  savedAt: string;
 }